@@ -4,12 +4,14 @@ import { useTranslations } from 'next-intl';
 import { useState, useEffect } from 'react';
 import { useRouter } from '@/i18n/navigation';
 import type { SessionData, Combo } from '@/lib/types';
-import { COMBOS, getCombosByLevel, getComboById } from '@/lib/combos';
+import { COMBOS, MOVES, getCombosByLevel, getComboById } from '@/lib/combos';
 import { getHistory, deleteSession } from '@/lib/settings';
-import { deleteVideo } from '@/lib/videoStorage';
+import { deleteVideo, deletePoseFrames } from '@/lib/videoStorage';
+import { sumReps } from '@/lib/pose/reps';
 import { LevelSelector } from '@/components/LevelSelector';
 import { ComboCard } from '@/components/ComboCard';
 import { SessionDetailModal } from '@/components/SessionDetailModal';
+import { SpeedHistory } from '@/components/SpeedHistory';
 
 export default function DashboardPage() {
   const t = useTranslations();
@@ -27,6 +29,12 @@ export default function DashboardPage() {
     ? getCombosByLevel(selectedLevel)
     : COMBOS;
 
+  // Training volume across today's sessions
+  const todayStart = new Date().setHours(0, 0, 0, 0);
+  const todayReps = sumReps(
+    history.flatMap((s) => (s.timestamp >= todayStart && s.reps ? [s.reps] : []))
+  );
+
   const handleComboSelect = (comboId: string) => {
     router.push(`/session/${comboId}`);
   };
@@ -46,6 +54,9 @@ export default function DashboardPage() {
     deleteVideo(sessionId).catch(() => {
       // Ignore errors - video may not exist
     });
+    deletePoseFrames(sessionId).catch(() => {
+      // Ignore errors - frames may not exist
+    });
     setHistory(getHistory());
   };
 
@@ -96,6 +107,34 @@ export default function DashboardPage() {
           {t('dashboard.history.title')}
         </h2>
 
+        {/* Today's volume */}
+        {todayReps.totalStrikes > 0 && (
+          <div className="mb-4 flex flex-wrap items-center gap-2 rounded-lg bg-primary-500/10 p-3 text-sm">
+            <span className="font-medium text-foreground">
+              {t('dashboard.history.today')}:
+            </span>
+            <span className="text-muted-foreground">
+              {t('dashboard.history.repsSummary', {
+                reps: todayReps.comboReps,
+                strikes: todayReps.totalStrikes,
+              })}
+            </span>
+            {Object.entries(todayReps.strikesByMove).map(([moveId, count]) =>
+              MOVES[moveId] ? (
+                <span
+                  key={moveId}
+                  className="rounded-lg bg-card px-2 py-0.5 text-xs font-medium text-primary-600 dark:text-primary-400"
+                >
+                  {t(MOVES[moveId].nameKey)} × {count}
+                </span>
+              ) : null
+            )}
+          </div>
+        )}
+
+        {/* Top speed per move over time */}
+        <SpeedHistory history={history} />
+
         {history.length === 0 ? (
           <p className="text-center text-muted-foreground">
             {t('dashboard.history.empty')}
@@ -119,6 +158,14 @@ export default function DashboardPage() {
                     <div className="text-sm text-muted-foreground">
                       {formatDate(session.timestamp)}
                     </div>
+                    {session.reps && session.reps.totalStrikes > 0 && (
+                      <div className="text-xs text-muted-foreground">
+                        {t('dashboard.history.repsSummary', {
+                          reps: session.reps.comboReps,
+                          strikes: session.reps.totalStrikes,
+                        })}
+                      </div>
+                    )}
                   </div>
                   <div className="flex items-center gap-3">
                     {/* Analyzing indicator */}
@@ -1,9 +1,15 @@
 'use client';
 
 import { useTranslations } from 'next-intl';
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useRouter } from '@/i18n/navigation';
-import type { CalibrationData, MusicSettings, TrainingSettings, AnalysisQuality } from '@/lib/types';
+import type {
+  CalibrationData,
+  MusicSettings,
+  TrainingSettings,
+  AnalysisQuality,
+  CoachingOverlaySettings,
+} from '@/lib/types';
 import type { Stance } from '@/lib/types';
 import { ANALYSIS_QUALITY_PRESETS } from '@/lib/types';
 import {
@@ -15,11 +21,19 @@ import {
   saveTrainingSettings,
   getAnalysisQuality,
   saveAnalysisQuality,
+  getCoachingOverlaySettings,
+  saveCoachingOverlaySettings,
   clearHistory,
   setWearingGloves,
   setStance,
+  getSettings,
+  getScoringRubric,
+  importScoringRubric,
+  clearScoringRubric,
 } from '@/lib/settings';
-import { getMaxVideos, setMaxVideos, getStorageInfo } from '@/lib/videoStorage';
+import { getMaxVideos, setMaxVideos, getStorageInfo, clearPoseFrames } from '@/lib/videoStorage';
+import { rescoreHistory } from '@/lib/rescore';
+import { isAbortError } from '@/lib/pose/videoFrames';
 
 export default function SettingsPage() {
   const t = useTranslations();
@@ -29,16 +43,30 @@ export default function SettingsPage() {
   const [musicSettings, setMusicSettings] = useState<MusicSettings | null>(null);
   const [trainingSettings, setTrainingSettings] = useState<TrainingSettings | null>(null);
   const [analysisQuality, setAnalysisQualityState] = useState<AnalysisQuality>('balanced');
+  const [overlaySettings, setOverlaySettings] = useState<CoachingOverlaySettings | null>(null);
   const [showConfirmClear, setShowConfirmClear] = useState<string | null>(null);
   const [maxVideos, setMaxVideosState] = useState(10);
   const [storageInfo, setStorageInfo] = useState<{ count: number; sizeBytes: number } | null>(null);
+  const [rescoreProgress, setRescoreProgress] = useState<{ completed: number; total: number } | null>(null);
+  const [rescoredCount, setRescoredCount] = useState<number | null>(null);
+  const rescoreAbortRef = useRef<AbortController | null>(null);
+  const [rubricId, setRubricId] = useState<string | null>(null);
+  const [rubricError, setRubricError] = useState<string | null>(null);
+  const rubricInputRef = useRef<HTMLInputElement>(null);
+
+  // Stop re-scoring when leaving the page
+  useEffect(() => {
+    return () => rescoreAbortRef.current?.abort();
+  }, []);
 
   useEffect(() => {
     setCalibration(getCalibration());
     setMusicSettings(getMusicSettings());
     setTrainingSettings(getTrainingSettings());
     setAnalysisQualityState(getAnalysisQuality());
+    setOverlaySettings(getCoachingOverlaySettings());
     setMaxVideosState(getMaxVideos());
+    setRubricId(getSettings().scoringRubric ? getScoringRubric().id : null);
     
     // Load storage info
     getStorageInfo()
@@ -81,6 +109,16 @@ export default function SettingsPage() {
     saveAnalysisQuality(quality);
   };
 
+  const handleOverlaySettingsChange = <K extends keyof CoachingOverlaySettings>(
+    key: K,
+    value: CoachingOverlaySettings[K]
+  ) => {
+    if (!overlaySettings) return;
+    const newSettings = { ...overlaySettings, [key]: value };
+    setOverlaySettings(newSettings);
+    saveCoachingOverlaySettings(newSettings);
+  };
+
   const handleMaxVideosChange = (value: number) => {
     setMaxVideosState(value);
     setMaxVideos(value);
@@ -101,9 +139,55 @@ export default function SettingsPage() {
 
   const handleClearHistory = () => {
     clearHistory();
+    clearPoseFrames().catch(() => {
+      // Ignore errors - nothing to clear
+    });
     setShowConfirmClear(null);
   };
 
+  const handleRescoreAll = async () => {
+    setRescoredCount(null);
+    setRescoreProgress({ completed: 0, total: 0 });
+    const abortController = new AbortController();
+    rescoreAbortRef.current = abortController;
+
+    try {
+      const count = await rescoreHistory(
+        (completed, total) => setRescoreProgress({ completed, total }),
+        false,
+        abortController.signal
+      );
+      setRescoredCount(count);
+    } catch (err) {
+      if (!isAbortError(err)) {
+        console.error('Re-score error:', err);
+      }
+    } finally {
+      rescoreAbortRef.current = null;
+      setRescoreProgress(null);
+    }
+  };
+
+  const handleRubricImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const rubric = importScoringRubric(JSON.parse(await file.text()));
+      setRubricId(rubric.id);
+      setRubricError(null);
+    } catch (err) {
+      setRubricError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleRubricReset = () => {
+    clearScoringRubric();
+    setRubricId(null);
+    setRubricError(null);
+  };
+
   const handleClearCalibration = () => {
     clearCalibration();
     setCalibration(null);
@@ -373,6 +457,12 @@ export default function SettingsPage() {
                 <span>{ANALYSIS_QUALITY_PRESETS.fast.maxDurationSec}s max</span>
                 <span>•</span>
                 <span>{t('settings.analysis.fast.model')}</span>
+                <span>•</span>
+                <span>
+                  {ANALYSIS_QUALITY_PRESETS.fast.liveCapture
+                    ? t('settings.analysis.live')
+                    : t('settings.analysis.afterRecording')}
+                </span>
               </div>
             </button>
 
@@ -410,6 +500,12 @@ export default function SettingsPage() {
                 <span>{ANALYSIS_QUALITY_PRESETS.balanced.maxDurationSec}s max</span>
                 <span>•</span>
                 <span>{t('settings.analysis.balanced.model')}</span>
+                <span>•</span>
+                <span>
+                  {ANALYSIS_QUALITY_PRESETS.balanced.liveCapture
+                    ? t('settings.analysis.live')
+                    : t('settings.analysis.afterRecording')}
+                </span>
               </div>
             </button>
 
@@ -444,11 +540,85 @@ export default function SettingsPage() {
                 <span>{ANALYSIS_QUALITY_PRESETS.maximum.maxDurationSec}s max</span>
                 <span>•</span>
                 <span>{t('settings.analysis.maximum.model')}</span>
+                <span>•</span>
+                <span>
+                  {ANALYSIS_QUALITY_PRESETS.maximum.liveCapture
+                    ? t('settings.analysis.live')
+                    : t('settings.analysis.afterRecording')}
+                </span>
               </div>
             </button>
           </div>
         </section>
 
+        {/* Live coaching overlay */}
+        <section className="rounded-xl border border-border bg-card p-6">
+          <h2 className="mb-4 font-display text-xl tracking-wide text-foreground">
+            {t('settings.coaching.title')}
+          </h2>
+          <p className="mb-4 text-sm text-muted-foreground">
+            {t('settings.coaching.description')}
+          </p>
+
+          {overlaySettings && (
+            <div className="space-y-4">
+              {(['skeleton', 'guardAlert', 'strikeTicks'] as const).map((cue) => (
+                <div key={cue} className="flex items-center justify-between gap-4">
+                  <div>
+                    <p className="font-medium text-foreground">{t(`settings.coaching.${cue}.title`)}</p>
+                    <p className="text-sm text-muted-foreground">
+                      {t(`settings.coaching.${cue}.description`)}
+                    </p>
+                  </div>
+                  <div className="flex shrink-0 gap-2">
+                    <button
+                      onClick={() => handleOverlaySettingsChange(cue, true)}
+                      className={`rounded-lg px-4 py-2 text-sm font-medium transition-colors ${
+                        overlaySettings[cue]
+                          ? 'bg-primary-600 text-white'
+                          : 'bg-background text-muted-foreground hover:text-foreground'
+                      }`}
+                    >
+                      {t('common.yes')}
+                    </button>
+                    <button
+                      onClick={() => handleOverlaySettingsChange(cue, false)}
+                      className={`rounded-lg px-4 py-2 text-sm font-medium transition-colors ${
+                        !overlaySettings[cue]
+                          ? 'bg-primary-600 text-white'
+                          : 'bg-background text-muted-foreground hover:text-foreground'
+                      }`}
+                    >
+                      {t('common.no')}
+                    </button>
+                  </div>
+                </div>
+              ))}
+
+              {/* Guard alert delay */}
+              {overlaySettings.guardAlert && (
+                <div className="border-t border-border pt-4">
+                  <label className="mb-2 block text-sm text-muted-foreground">
+                    {t('settings.coaching.guardAlertDelay')}:{' '}
+                    {(overlaySettings.guardAlertDelayMs / 1000).toFixed(1)}s
+                  </label>
+                  <input
+                    type="range"
+                    min="500"
+                    max="3000"
+                    step="250"
+                    value={overlaySettings.guardAlertDelayMs}
+                    onChange={(e) =>
+                      handleOverlaySettingsChange('guardAlertDelayMs', parseInt(e.target.value))
+                    }
+                    className="w-full"
+                  />
+                </div>
+              )}
+            </div>
+          )}
+        </section>
+
         {/* Music defaults */}
         <section className="rounded-xl border border-border bg-card p-6">
           <h2 className="mb-4 font-display text-xl tracking-wide text-foreground">
@@ -516,6 +686,53 @@ export default function SettingsPage() {
           </div>
         </section>
 
+        {/* Scoring rubric */}
+        <section className="rounded-xl border border-border bg-card p-6">
+          <h2 className="mb-4 font-display text-xl tracking-wide text-foreground">
+            {t('settings.rubric.title')}
+          </h2>
+          <p className="mb-4 text-sm text-muted-foreground">
+            {t('settings.rubric.description')}
+          </p>
+
+          <div className="space-y-3">
+            <div className="rounded-lg bg-muted p-3">
+              <div className="text-xs text-muted-foreground">
+                {t('settings.rubric.current')}
+              </div>
+              <div className="font-medium text-foreground">
+                {rubricId ?? t('settings.rubric.builtIn')}
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <button
+                onClick={() => rubricInputRef.current?.click()}
+                className="flex-1 rounded-lg border border-border py-3 text-sm font-medium text-foreground transition-colors hover:bg-muted"
+              >
+                📄 {t('settings.rubric.import')}
+              </button>
+              {rubricId !== null && (
+                <button
+                  onClick={handleRubricReset}
+                  className="flex-1 rounded-lg border border-border py-3 text-sm font-medium text-muted-foreground transition-colors hover:bg-muted hover:text-foreground"
+                >
+                  {t('settings.rubric.reset')}
+                </button>
+              )}
+            </div>
+            <input
+              ref={rubricInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={handleRubricImport}
+            />
+            {rubricError && (
+              <p className="text-xs text-red-500">{rubricError}</p>
+            )}
+          </div>
+        </section>
+
         {/* Data management */}
         <section className="rounded-xl border border-border bg-card p-6">
           <h2 className="mb-4 font-display text-xl tracking-wide text-foreground">
@@ -523,6 +740,40 @@ export default function SettingsPage() {
           </h2>
 
           <div className="space-y-3">
+            {/* Re-score history with the current algorithm */}
+            <button
+              onClick={handleRescoreAll}
+              disabled={rescoreProgress !== null}
+              className="w-full rounded-lg border border-border py-3 text-sm font-medium text-foreground transition-colors hover:bg-muted disabled:opacity-50"
+            >
+              {rescoreProgress
+                ? t('settings.data.rescoring', rescoreProgress)
+                : `📊 ${t('settings.data.rescoreAll')}`}
+            </button>
+            {rescoreProgress && (
+              <div className="flex items-center gap-3">
+                <div className="h-2 flex-1 overflow-hidden rounded-full bg-muted">
+                  <div
+                    className="h-full bg-primary-500 transition-all duration-300"
+                    style={{
+                      width: `${rescoreProgress.total > 0 ? (rescoreProgress.completed / rescoreProgress.total) * 100 : 0}%`,
+                    }}
+                  />
+                </div>
+                <button
+                  onClick={() => rescoreAbortRef.current?.abort()}
+                  className="text-xs text-muted-foreground hover:text-foreground"
+                >
+                  {t('common.cancel')}
+                </button>
+              </div>
+            )}
+            {rescoredCount !== null && (
+              <p className="text-center text-xs text-muted-foreground">
+                {t('settings.data.rescoreDone', { count: rescoredCount })}
+              </p>
+            )}
+
             {/* Clear history */}
             {showConfirmClear === 'history' ? (
               <div className="rounded-lg bg-red-500/10 p-4">
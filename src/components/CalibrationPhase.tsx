@@ -10,7 +10,8 @@ import {
   estimateViewAngle,
 } from '@/lib/pose/metrics';
 import { requestCameraStream, stopStream } from '@/lib/recorder';
-import { saveCalibration } from '@/lib/settings';
+import { saveCalibration, getAnalysisQualityPreset } from '@/lib/settings';
+import { PoseSmoother } from '@/lib/pose/smoothing';
 
 interface CalibrationPhaseProps {
   onComplete: (calibration: CalibrationData) => void;
@@ -28,6 +29,7 @@ export function CalibrationPhase({
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const streamRef = useRef<MediaStream | null>(null);
   const animationRef = useRef<number | null>(null);
+  const smootherRef = useRef<PoseSmoother | null>(null);
 
   const [step, setStep] = useState<CalibrationStep>('detecting');
   const [holdProgress, setHoldProgress] = useState(0);
@@ -65,6 +67,7 @@ export function CalibrationPhase({
         // Initialize pose model
         await initPoseLandmarker();
         if (!mounted) return;
+        smootherRef.current = new PoseSmoother(getAnalysisQualityPreset().smoothing);
         setIsModelLoading(false);
 
         // Get camera stream
@@ -123,7 +126,13 @@ export function CalibrationPhase({
     ctx.clearRect(0, 0, canvas.width, canvas.height);
 
     // Detect pose
-    const landmarks = await detectPose(video, performance.now());
+    const pose = await detectPose(
+      video,
+      performance.now(),
+      undefined,
+      smootherRef.current ?? undefined
+    );
+    const landmarks = pose?.landmarks;
 
     if (landmarks) {
       // Draw skeleton
@@ -225,6 +234,7 @@ export function CalibrationPhase({
   };
 
   const handleRecalibrate = () => {
+    smootherRef.current?.reset();
     setStep('detecting');
     setHoldProgress(0);
     holdStartTimeRef.current = null;
@@ -0,0 +1,120 @@
+'use client';
+
+import { useTranslations } from 'next-intl';
+import { useState, useEffect, useRef } from 'react';
+import type { Limb } from '@/lib/types';
+import type { LivePoseCapture } from '@/lib/pose/liveCapture';
+import { drawSkeleton } from '@/lib/pose/pose';
+import { getCalibration, getCoachingOverlaySettings } from '@/lib/settings';
+import { LiveCoach } from '@/lib/pose/liveCoaching';
+
+// How long a strike tick stays on screen
+const TICK_DURATION_MS = 800;
+
+interface CoachingOverlayProps {
+  capture: LivePoseCapture | null;
+  videoRef: React.RefObject<HTMLVideoElement | null>;
+  isFullscreen: boolean;
+}
+
+interface StrikeTick {
+  id: number;
+  limb: Limb;
+}
+
+export function CoachingOverlay({
+  capture,
+  videoRef,
+  isFullscreen,
+}: CoachingOverlayProps) {
+  const t = useTranslations('session.practice.coaching');
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [guardDown, setGuardDown] = useState(false);
+  const [ticks, setTicks] = useState<StrikeTick[]>([]);
+
+  // Feed every live frame through the coach
+  useEffect(() => {
+    if (!capture) return;
+
+    const settings = getCoachingOverlaySettings();
+    const coach = new LiveCoach(getCalibration(), settings.guardAlertDelayMs);
+    const tickTimers = new Set<ReturnType<typeof setTimeout>>();
+    let nextTickId = 0;
+
+    capture.setListener((pose, timestamp) => {
+      const canvas = canvasRef.current;
+      const video = videoRef.current;
+      const ctx = canvas?.getContext('2d');
+      if (canvas && ctx && video) {
+        // Match the camera resolution; CSS crops it like the video
+        if (canvas.width !== video.videoWidth || canvas.height !== video.videoHeight) {
+          canvas.width = video.videoWidth;
+          canvas.height = video.videoHeight;
+        }
+        ctx.clearRect(0, 0, canvas.width, canvas.height);
+        if (settings.skeleton && pose) {
+          drawSkeleton(ctx, pose.landmarks, canvas.width, canvas.height, '#00ff00');
+        }
+      }
+
+      const cues = coach.update(pose, timestamp);
+      setGuardDown(settings.guardAlert && cues.guardDown);
+
+      if (settings.strikeTicks && cues.strikes.length > 0) {
+        const added = cues.strikes.map((limb) => ({ id: nextTickId++, limb }));
+        setTicks((prev) => [...prev, ...added]);
+
+        const timer = setTimeout(() => {
+          tickTimers.delete(timer);
+          setTicks((prev) => prev.filter((tick) => !added.includes(tick)));
+        }, TICK_DURATION_MS);
+        tickTimers.add(timer);
+      }
+    });
+
+    return () => {
+      capture.setListener(null);
+      tickTimers.forEach(clearTimeout);
+    };
+  }, [capture, videoRef]);
+
+  return (
+    <>
+      {/* Skeleton - mirrored like the live preview */}
+      <canvas
+        ref={canvasRef}
+        className="pointer-events-none absolute inset-0 h-full w-full object-cover"
+        style={{ transform: 'scaleX(-1)' }}
+      />
+
+      {/* Guard down alert */}
+      {guardDown && (
+        <div className="pointer-events-none absolute inset-0 animate-pulse border-4 border-red-500">
+          <div className={`absolute left-1/2 -translate-x-1/2 rounded-lg bg-red-600 font-display tracking-wide text-white ${
+            isFullscreen ? 'top-8 px-6 py-3 text-3xl' : 'top-4 px-4 py-2 text-xl'
+          }`}>
+            🛡️ {t('guardDown')}
+          </div>
+        </div>
+      )}
+
+      {/* Strike ticks */}
+      {ticks.length > 0 && (
+        <div className={`pointer-events-none absolute top-1/2 flex -translate-y-1/2 flex-col gap-2 ${
+          isFullscreen ? 'left-8' : 'left-4'
+        }`}>
+          {ticks.map((tick) => (
+            <div
+              key={tick.id}
+              className={`rounded-lg bg-green-600/90 font-medium text-white ${
+                isFullscreen ? 'px-4 py-2 text-lg' : 'px-3 py-1 text-sm'
+              }`}
+            >
+              ✓ {t(`limbs.${tick.limb}`)}
+            </div>
+          ))}
+        </div>
+      )}
+    </>
+  );
+}
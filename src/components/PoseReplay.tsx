@@ -0,0 +1,170 @@
+'use client';
+
+import { useTranslations } from 'next-intl';
+import { useState, useEffect, useRef, useCallback } from 'react';
+import type { PoseFrame } from '@/lib/types';
+import { getPoseFrames } from '@/lib/videoStorage';
+import { drawSkeleton } from '@/lib/pose/pose';
+import { createBlobUrl, revokeBlobUrl } from '@/lib/recorder';
+
+// Time the browser gets to start the download before its URL is revoked
+const EXPORT_REVOKE_DELAY_MS = 10000;
+
+interface PoseReplayProps {
+  sessionId: string;
+}
+
+/**
+ * Replays a session's stored landmarks as a skeleton and exports them as JSON.
+ * Renders nothing when the session has no stored frames.
+ */
+export function PoseReplay({ sessionId }: PoseReplayProps) {
+  const t = useTranslations();
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const frameIndexRef = useRef(0);
+
+  const [frames, setFrames] = useState<PoseFrame[] | null>(null);
+  const [frameIndex, setFrameIndex] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+
+  const showFrame = useCallback((index: number) => {
+    frameIndexRef.current = index;
+    setFrameIndex(index);
+  }, []);
+
+  // Load stored frames
+  useEffect(() => {
+    let cancelled = false;
+
+    getPoseFrames(sessionId)
+      .then((stored) => {
+        if (cancelled) return;
+        setFrames(stored && stored.length > 0 ? stored : null);
+        showFrame(0);
+      })
+      .catch((err) => {
+        console.error('Failed to load pose frames:', err);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionId, showFrame]);
+
+  // Advance through the frames on their own timestamps while playing
+  useEffect(() => {
+    if (!isPlaying || !frames) return;
+
+    const startWall = performance.now();
+    const startTime = frames[frameIndexRef.current].timestamp;
+    let index = frameIndexRef.current;
+    let animationFrame = 0;
+
+    const tick = (now: number) => {
+      const time = startTime + (now - startWall);
+      while (index < frames.length - 1 && frames[index + 1].timestamp <= time) index++;
+      showFrame(index);
+
+      if (index >= frames.length - 1) {
+        setIsPlaying(false);
+        return;
+      }
+      animationFrame = requestAnimationFrame(tick);
+    };
+
+    animationFrame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(animationFrame);
+  }, [isPlaying, frames, showFrame]);
+
+  // Draw the current frame
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const frame = frames?.[frameIndex];
+    if (!canvas || !frame) return;
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    const rect = canvas.getBoundingClientRect();
+    canvas.width = rect.width;
+    canvas.height = rect.height;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    drawSkeleton(ctx, frame.landmarks, canvas.width, canvas.height);
+  }, [frames, frameIndex]);
+
+  const handlePlayPause = () => {
+    if (!frames) return;
+    if (!isPlaying && frameIndexRef.current >= frames.length - 1) showFrame(0);
+    setIsPlaying(!isPlaying);
+  };
+
+  // Download the frames as JSON
+  const handleExport = () => {
+    if (!frames) return;
+
+    const blob = new Blob([JSON.stringify({ sessionId, frames })], { type: 'application/json' });
+    const url = createBlobUrl(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${sessionId}-pose.json`;
+    link.click();
+    // Revoking right away can cancel the download in Firefox and Safari
+    setTimeout(() => revokeBlobUrl(url), EXPORT_REVOKE_DELAY_MS);
+  };
+
+  if (!frames) return null;
+
+  const elapsed = (frames[frameIndex].timestamp - frames[0].timestamp) / 1000;
+
+  return (
+    <div className="rounded-xl border border-border bg-muted/30 p-4">
+      <div className="mb-3 flex items-center justify-between">
+        <h4 className="text-sm font-medium text-foreground">
+          {t('session.review.replay.title')}
+        </h4>
+        <button
+          onClick={handleExport}
+          className="rounded-lg bg-muted px-3 py-1.5 text-xs font-medium text-foreground hover:bg-muted/80"
+        >
+          {t('session.review.replay.export')}
+        </button>
+      </div>
+      <div className="relative aspect-video overflow-hidden rounded-lg bg-black">
+        {/* Mirrored like the recorded video */}
+        <canvas
+          ref={canvasRef}
+          className="absolute inset-0 h-full w-full"
+          style={{ transform: 'scaleX(-1)' }}
+        />
+      </div>
+      <div className="mt-3 flex items-center gap-3">
+        <button
+          onClick={handlePlayPause}
+          aria-label={isPlaying ? t('session.review.replay.pause') : t('session.review.replay.play')}
+          className="flex h-8 w-8 items-center justify-center rounded-full bg-muted text-foreground hover:bg-muted/80"
+        >
+          {isPlaying ? (
+            <svg className="h-4 w-4" fill="currentColor" viewBox="0 0 24 24">
+              <path d="M6 4h4v16H6V4zm8 0h4v16h-4V4z" />
+            </svg>
+          ) : (
+            <svg className="h-4 w-4" fill="currentColor" viewBox="0 0 24 24">
+              <path d="M8 5v14l11-7z" />
+            </svg>
+          )}
+        </button>
+        <input
+          type="range"
+          min="0"
+          max={frames.length - 1}
+          value={frameIndex}
+          className="flex-1 h-1 cursor-pointer"
+          onChange={(e) => showFrame(parseInt(e.target.value, 10))}
+        />
+        <span className="text-xs tabular-nums text-muted-foreground">
+          {elapsed.toFixed(1)}s
+        </span>
+      </div>
+    </div>
+  );
+}
@@ -4,16 +4,29 @@ import { useTranslations } from 'next-intl';
 import { useState, useEffect, useRef } from 'react';
 import { useSession } from 'next-auth/react';
 import { useRouter } from '@/i18n/navigation';
-import type { Combo, DriveUploadResult, ExtendedSession, SessionData } from '@/lib/types';
+import type { Combo, DriveUploadResult, ExtendedSession, SessionData, PoseFrame } from '@/lib/types';
 import { VideoRecorder, createBlobUrl, revokeBlobUrl } from '@/lib/recorder';
 import { uploadVideoToDrive } from '@/lib/drive';
-import { getRoundDuration, getCalibration, addToHistory, updateSession, generateSessionId } from '@/lib/settings';
-import { saveVideo } from '@/lib/videoStorage';
+import {
+  getRoundDuration,
+  getCalibration,
+  addToHistory,
+  updateSession,
+  generateSessionId,
+  getAnalysisQualityPreset,
+  getCoachingOverlaySettings,
+  getScoringRubric,
+} from '@/lib/settings';
+import { saveVideo, savePoseFrames } from '@/lib/videoStorage';
 import { getComboMoves, MOVES } from '@/lib/combos';
 import { analyzeVideoBlob } from '@/lib/pose/pose';
+import { isAbortError } from '@/lib/pose/videoFrames';
+import { LivePoseCapture } from '@/lib/pose/liveCapture';
+import { ANALYSIS_QUALITY_PRESETS } from '@/lib/types';
 import { generateScore, getMoveTypesFromCombo } from '@/lib/pose/scoring';
 import { FullscreenToggle } from './FullscreenToggle';
 import { MusicPanel } from './MusicPanel';
+import { CoachingOverlay } from './CoachingOverlay';
 
 interface PracticePhaseProps {
   combo: Combo;
@@ -30,6 +43,10 @@ export function PracticePhase({ combo, onBack }: PracticePhaseProps) {
   const videoRef = useRef<HTMLVideoElement>(null);
   const playbackVideoRef = useRef<HTMLVideoElement>(null);
   const recorderRef = useRef<VideoRecorder | null>(null);
+  const analysisAbortRef = useRef<AbortController | null>(null);
+  const liveCaptureRef = useRef<LivePoseCapture | null>(null);
+  const liveFramesRef = useRef<PoseFrame[] | null>(null);
+  const [liveCapture, setLiveCapture] = useState<LivePoseCapture | null>(null);
 
   const [state, setState] = useState<PracticeState>('ready');
   const [countdown, setCountdown] = useState(3);
@@ -132,6 +149,7 @@ export function PracticePhase({ combo, onBack }: PracticePhaseProps) {
     // Generate session ID and save to history immediately
     const newSessionId = generateSessionId();
     setSessionId(newSessionId);
+    const calibration = getCalibration();
     
     const session: SessionData = {
       id: newSessionId,
@@ -143,6 +161,7 @@ export function PracticePhase({ combo, onBack }: PracticePhaseProps) {
       hasLocalVideo: true, // Video will be saved locally
       isAnalyzing: true,
       analysisProgress: 0,
+      calibration,
     };
     addToHistory(session);
     
@@ -156,44 +175,65 @@ export function PracticePhase({ combo, onBack }: PracticePhaseProps) {
     // Start background analysis
     setIsAnalyzing(true);
     setAnalysisProgress(0);
+    const abortController = new AbortController();
+    analysisAbortRef.current = abortController;
 
     const runAnalysis = async () => {
       try {
-        const calibration = getCalibration();
         const moveTypes = getMoveTypesFromCombo(combo.moveIds, MOVES);
-        
+
+        // Landmarks captured live during recording skip the video analysis
+        const liveFrames = liveFramesRef.current;
+        liveFramesRef.current = null;
+
         // Analyze video - update both local state and session storage
-        const frames = await analyzeVideoBlob(
-          recordedBlob,
-          (progress) => {
-            setAnalysisProgress(progress);
-            // Update session progress every 5%
-            if (progress % 5 === 0 || progress === 100) {
-              updateSession(newSessionId, { analysisProgress: progress });
-            }
-          }
-        );
+        const frames = liveFrames && liveFrames.length > 0
+          ? liveFrames
+          : await analyzeVideoBlob(
+              recordedBlob,
+              (progress) => {
+                setAnalysisProgress(progress);
+                // Update session progress every 5%
+                if (progress % 5 === 0 || progress === 100) {
+                  updateSession(newSessionId, { analysisProgress: progress });
+                }
+              },
+              undefined,
+              abortController.signal
+            );
+
+        // Keep the landmarks so the session can be replayed or re-scored later
+        savePoseFrames(newSessionId, frames).catch(err => {
+          console.error('Failed to save pose frames locally:', err);
+        });
 
         // Generate scores
         const analysisResult = generateScore(frames, {
           calibration,
           comboMoveTypes: moveTypes,
+          comboMoves: getComboMoves(combo),
+          combo,
+          rubric: getScoringRubric(),
         });
 
         // Update session with results
         updateSession(newSessionId, {
           score: analysisResult.score,
+          reps: analysisResult.reps,
           isAnalyzing: false,
           analysisProgress: 100,
         });
       } catch (error) {
-        console.error('Background analysis error:', error);
-        // Mark as not analyzing even on error
+        if (!isAbortError(error)) {
+          console.error('Background analysis error:', error);
+        }
+        // Mark as not analyzing even on error or cancel
         updateSession(newSessionId, {
           isAnalyzing: false,
           analysisProgress: 0,
         });
       } finally {
+        analysisAbortRef.current = null;
         setIsAnalyzing(false);
       }
     };
@@ -243,6 +283,8 @@ export function PracticePhase({ combo, onBack }: PracticePhaseProps) {
 
     return () => {
       mounted = false;
+      liveCaptureRef.current?.stop();
+      liveCaptureRef.current = null;
       if (recorderRef.current) {
         recorderRef.current.cleanup();
         recorderRef.current = null;
@@ -266,6 +308,7 @@ export function PracticePhase({ combo, onBack }: PracticePhaseProps) {
     if (countdown === 0) {
       setState('recording');
       recorderRef.current?.start();
+      startLiveCapture();
       return;
     }
 
@@ -292,6 +335,34 @@ export function PracticePhase({ combo, onBack }: PracticePhaseProps) {
     return () => clearTimeout(timer);
   }, [state, timeRemaining]); // eslint-disable-line react-hooks/exhaustive-deps
 
+  // Detect poses on the camera feed while recording (presets with liveCapture,
+  // or any preset while the coaching overlay is on)
+  const startLiveCapture = () => {
+    const preset = getAnalysisQualityPreset();
+    const recorder = recorderRef.current;
+    const video = videoRef.current;
+    const overlay = getCoachingOverlaySettings();
+    const overlayEnabled = overlay.skeleton || overlay.guardAlert || overlay.strikeTicks;
+    liveFramesRef.current = null;
+    if (!recorder || !video || !(preset.liveCapture || overlayEnabled)) return;
+
+    // Presets that analyse afterwards only need a light model for the overlay
+    const capturePreset = preset.liveCapture ? preset : ANALYSIS_QUALITY_PRESETS.fast;
+    const capture = new LivePoseCapture(video, capturePreset, (now) =>
+      recorder.getIsPaused() ? null : recorder.getRecordingTime(now)
+    );
+    liveCaptureRef.current = capture;
+    setLiveCapture(capture);
+    capture.start().catch((err) => {
+      // The saved video is analysed instead
+      console.error('Live pose capture unavailable:', err);
+      if (liveCaptureRef.current === capture) {
+        liveCaptureRef.current = null;
+        setLiveCapture(null);
+      }
+    });
+  };
+
   const handleStartCountdown = () => {
     setCountdown(3);
     setTimeRemaining(roundDuration);
@@ -311,6 +382,14 @@ export function PracticePhase({ combo, onBack }: PracticePhaseProps) {
   const handleStopRecording = async () => {
     // Show finishing overlay first
     setState('finishing');
+
+    // Keep the live landmarks for scoring (overlay-only captures are discarded)
+    if (liveCaptureRef.current) {
+      const frames = liveCaptureRef.current.stop();
+      liveFramesRef.current = getAnalysisQualityPreset().liveCapture ? frames : null;
+      liveCaptureRef.current = null;
+      setLiveCapture(null);
+    }
     
     try {
       const result = await recorderRef.current?.stop();
@@ -338,6 +417,7 @@ export function PracticePhase({ combo, onBack }: PracticePhaseProps) {
     }
     setRecordedBlob(null);
     setUploadResult(null);
+    liveFramesRef.current = null;
 
     // Reinitialize camera
     try {
@@ -493,6 +573,15 @@ export function PracticePhase({ combo, onBack }: PracticePhaseProps) {
               </div>
             )}
 
+            {/* Live coaching cues */}
+            {state === 'recording' && (
+              <CoachingOverlay
+                capture={liveCapture}
+                videoRef={videoRef}
+                isFullscreen={isFullscreen}
+              />
+            )}
+
             {/* Countdown overlay */}
             {state === 'countdown' && (
               <div className="absolute inset-0 flex items-center justify-center bg-black/70">
@@ -778,6 +867,12 @@ export function PracticePhase({ combo, onBack }: PracticePhaseProps) {
                         style={{ width: `${analysisProgress}%` }}
                       />
                     </div>
+                    <button
+                      onClick={() => analysisAbortRef.current?.abort()}
+                      className="text-xs text-muted-foreground hover:text-foreground"
+                    >
+                      {t('common.cancel')}
+                    </button>
                   </div>
                 )}
                 
@@ -5,11 +5,13 @@ import { useState, useEffect, useRef, useCallback } from 'react';
 import type { Combo, CalibrationData, AnalysisResult, SessionData } from '@/lib/types';
 import { analyzeVideoBlob, drawSkeleton } from '@/lib/pose/pose';
 import { generateScore, getMoveTypesFromCombo } from '@/lib/pose/scoring';
-import { MOVES } from '@/lib/combos';
+import { MOVES, getComboMoves } from '@/lib/combos';
 import { createBlobUrl, revokeBlobUrl } from '@/lib/recorder';
-import { addToHistory, generateSessionId } from '@/lib/settings';
+import { addToHistory, generateSessionId, getScoringRubric } from '@/lib/settings';
+import { savePoseFrames } from '@/lib/videoStorage';
 import { FullscreenToggle } from './FullscreenToggle';
 import { ScoreRing } from './ui/ScoreRing';
+import { SafetyWarnings } from './SafetyWarnings';
 
 interface ReviewPhaseProps {
   combo: Combo;
@@ -67,18 +69,28 @@ export function ReviewPhase({
         const analysisResult = generateScore(frames, {
           calibration,
           comboMoveTypes: moveTypes,
+          comboMoves: getComboMoves(combo),
+          combo,
+          rubric: getScoringRubric(),
         });
 
         setResult(analysisResult);
 
-        // Save to history
+        // Save to history, with the landmarks for replay and re-scoring
+        const sessionId = generateSessionId();
+        savePoseFrames(sessionId, frames).catch((err) => {
+          console.error('Failed to save pose frames locally:', err);
+        });
+
         const session: SessionData = {
-          id: generateSessionId(),
+          id: sessionId,
           comboId: combo.id,
           timestamp: Date.now(),
           score: analysisResult.score,
+          reps: analysisResult.reps,
           driveFileId,
           driveWebViewLink,
+          calibration,
         };
         addToHistory(session);
       } catch (err) {
@@ -306,6 +318,17 @@ export function ReviewPhase({
             </div>
           </div>
 
+          {/* Safety - missing on scores from before safety checks */}
+          {result.score.safety && (
+            <SafetyWarnings
+              warnings={result.score.safety}
+              onSeek={(ms) => {
+                const video = videoRef.current;
+                if (video) video.currentTime = ms / 1000;
+              }}
+            />
+          )}
+
           {/* Feedback */}
           <div className="rounded-xl border border-border bg-card p-4">
             {/* Strengths */}
@@ -0,0 +1,59 @@
+'use client';
+
+import { useTranslations } from 'next-intl';
+import type { SafetyWarning } from '@/lib/types';
+
+interface SafetyWarningsProps {
+  warnings: SafetyWarning[];
+  onSeek?: (ms: number) => void; // jump the video to a moment; times are plain text without it
+}
+
+/**
+ * Injury-prone patterns with the moments they happened
+ */
+export function SafetyWarnings({ warnings, onSeek }: SafetyWarningsProps) {
+  const t = useTranslations();
+
+  if (warnings.length === 0) return null;
+
+  // Position in the round (m:ss)
+  const formatTime = (ms: number) => {
+    const seconds = Math.floor(ms / 1000);
+    return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+  };
+
+  return (
+    <div className="rounded-xl border border-red-500/30 bg-red-500/10 p-4">
+      <h4 className="mb-2 text-sm font-medium text-red-600 dark:text-red-400">
+        ⚠ {t('session.review.safety.title')}
+      </h4>
+      <ul className="space-y-3 text-sm">
+        {warnings.map((warning) => (
+          <li key={warning.issue}>
+            <p className="text-foreground">{t(`feedback.safety.${warning.issue}`)}</p>
+            <div className="mt-1 flex flex-wrap gap-1">
+              {warning.times.map((time) =>
+                onSeek ? (
+                  <button
+                    key={time}
+                    onClick={() => onSeek(time)}
+                    className="rounded bg-red-500/20 px-1.5 py-0.5 text-xs font-medium text-red-700 hover:bg-red-500/30 dark:text-red-300"
+                  >
+                    {formatTime(time)}
+                  </button>
+                ) : (
+                  <span
+                    key={time}
+                    className="rounded bg-red-500/20 px-1.5 py-0.5 text-xs font-medium text-red-700 dark:text-red-300"
+                  >
+                    {formatTime(time)}
+                  </span>
+                )
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
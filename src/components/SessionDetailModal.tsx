@@ -3,11 +3,33 @@
 import { useTranslations } from 'next-intl';
 import { useState, useEffect, useRef } from 'react';
 import { useSession } from 'next-auth/react';
-import type { SessionData, Combo, ExtendedSession } from '@/lib/types';
+import type { SessionData, Combo, ExtendedSession, MoveScore, FatigueMetric, FatigueWindow } from '@/lib/types';
 import { getHistory, updateSession } from '@/lib/settings';
 import { uploadVideoToDrive } from '@/lib/drive';
 import { ScoreRing } from './ui/ScoreRing';
+import { Sparkline } from './ui/Sparkline';
+import { SafetyWarnings } from './SafetyWarnings';
+import { PoseReplay } from './PoseReplay';
 import { createVideoUrl, getVideo } from '@/lib/videoStorage';
+import { MOVES } from '@/lib/combos';
+import { rescoreSession, isScoreOutdated } from '@/lib/rescore';
+import { isAbortError } from '@/lib/pose/videoFrames';
+
+// Rows of the round consistency chart, with each metric's scale and format
+const FATIGUE_ROWS: {
+  metric: FatigueMetric;
+  value: (w: FatigueWindow) => number | null;
+  min?: number;
+  max?: number;
+  format: (v: number) => string;
+}[] = [
+  { metric: 'guard', value: (w) => w.guardUpRatio, min: 0, max: 1, format: (v) => `${Math.round(v * 100)}%` },
+  { metric: 'extension', value: (w) => w.extension, format: (v) => `${v}°` },
+  { metric: 'strikeRate', value: (w) => w.strikeRate, min: 0, format: (v) => `${v}/min` },
+];
+
+// A move that was thrown and seen, so its execution can be compared
+type ScoredMove = MoveScore & { execution: number };
 
 interface SessionDetailModalProps {
   session: SessionData;
@@ -25,7 +47,15 @@ export function SessionDetailModal({ session: initialSession, combo, onClose }:
   const [uploadError, setUploadError] = useState<string | null>(null);
   const [isVideoPlaying, setIsVideoPlaying] = useState(false);
   const [videoProgress, setVideoProgress] = useState(0);
+  const [rescoreProgress, setRescoreProgress] = useState<number | null>(null);
+  const [rescoreError, setRescoreError] = useState<string | null>(null);
   const videoRef = useRef<HTMLVideoElement>(null);
+  const rescoreAbortRef = useRef<AbortController | null>(null);
+
+  // Cancel a running re-score when the modal closes
+  useEffect(() => {
+    return () => rescoreAbortRef.current?.abort();
+  }, []);
 
   // Poll for updates while analyzing
   useEffect(() => {
@@ -96,6 +126,35 @@ export function SessionDetailModal({ session: initialSession, combo, onClose }:
     };
   }, [localVideoUrl]);
 
+  // Compare the strongest and weakest move of the combo
+  const scoredMoves = (session.score?.moves ?? []).filter(
+    (m): m is ScoredMove => m.strikes > 0 && m.execution !== null
+  );
+  const bestMove = scoredMoves.reduce<ScoredMove | null>(
+    (best, m) => (!best || m.execution > best.execution ? m : best),
+    null
+  );
+  const worstMove = scoredMoves.reduce<ScoredMove | null>(
+    (worst, m) => (!worst || m.execution < worst.execution ? m : worst),
+    null
+  );
+  const moveGap =
+    bestMove && worstMove && bestMove.moveId !== worstMove.moveId
+      ? bestMove.execution - worstMove.execution
+      : 0;
+
+  // Speed bars share one scale, set by the fastest strike of the round
+  const spedMoves = scoredMoves.filter((m) => m.topSpeed !== undefined);
+  const maxSpeed = Math.max(0, ...spedMoves.map((m) => m.topSpeed ?? 0));
+
+  const fatigue = session.score?.fatigue;
+
+  // Position in the round (m:ss) from a timeline timestamp in ms
+  const formatRoundTime = (ms: number) => {
+    const seconds = Math.floor(ms / 1000);
+    return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+  };
+
   const formatDate = (timestamp: number) => {
     return new Date(timestamp).toLocaleDateString(undefined, {
       weekday: 'long',
@@ -152,6 +211,34 @@ export function SessionDetailModal({ session: initialSession, combo, onClose }:
     }
   };
 
+  // Rebuild the score with the current scoring algorithm
+  const handleRescore = async () => {
+    setRescoreProgress(0);
+    setRescoreError(null);
+    const abortController = new AbortController();
+    rescoreAbortRef.current = abortController;
+
+    try {
+      const rescored = await rescoreSession(session, setRescoreProgress, abortController.signal);
+      if (!rescored) {
+        setRescoreError(t('dashboard.history.rescoreUnavailable'));
+        return;
+      }
+
+      const updatedSession = getHistory().find(s => s.id === session.id);
+      if (updatedSession) {
+        setSession(updatedSession);
+      }
+    } catch (err) {
+      if (isAbortError(err)) return;
+      console.error('Re-score error:', err);
+      setRescoreError(t('errors.generic'));
+    } finally {
+      rescoreAbortRef.current = null;
+      setRescoreProgress(null);
+    }
+  };
+
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
       {/* Backdrop */}
@@ -333,6 +420,9 @@ export function SessionDetailModal({ session: initialSession, combo, onClose }:
             </div>
           )}
 
+          {/* Skeleton replay from stored landmarks */}
+          {!session.isAnalyzing && <PoseReplay sessionId={session.id} />}
+
           {/* Analyzing state with progress */}
           {session.isAnalyzing && (
             <div className="rounded-xl border border-border bg-muted/30 p-4">
@@ -352,6 +442,45 @@ export function SessionDetailModal({ session: initialSession, combo, onClose }:
             </div>
           )}
 
+          {/* Re-score with the current algorithm */}
+          {!session.isAnalyzing && (
+            <div className="rounded-xl border border-border bg-muted/30 p-4">
+              <div className="flex items-center gap-3">
+                <p className="text-sm text-muted-foreground">
+                  {rescoreProgress !== null
+                    ? t('dashboard.history.rescoring')
+                    : isScoreOutdated(session) && t('dashboard.history.outdatedScore')}
+                </p>
+                {rescoreProgress !== null ? (
+                  <button
+                    onClick={() => rescoreAbortRef.current?.abort()}
+                    className="ml-auto rounded-lg bg-muted px-3 py-1.5 text-xs font-medium text-muted-foreground hover:text-foreground"
+                  >
+                    {t('common.cancel')}
+                  </button>
+                ) : (
+                  <button
+                    onClick={handleRescore}
+                    className="ml-auto rounded-lg bg-muted px-3 py-1.5 text-xs font-medium text-foreground hover:bg-muted/80"
+                  >
+                    🔄 {t('dashboard.history.rescore')}
+                  </button>
+                )}
+              </div>
+              {rescoreProgress !== null && (
+                <div className="mt-3 h-2 overflow-hidden rounded-full bg-muted">
+                  <div
+                    className="h-full bg-primary-500 transition-all duration-300"
+                    style={{ width: `${rescoreProgress}%` }}
+                  />
+                </div>
+              )}
+              {rescoreError && (
+                <p className="mt-2 text-xs text-red-500">{rescoreError}</p>
+              )}
+            </div>
+          )}
+
           {/* No score */}
           {!session.score && !session.isAnalyzing && (
             <div className="flex flex-col items-center justify-center py-4 text-center">
@@ -374,6 +503,26 @@ export function SessionDetailModal({ session: initialSession, combo, onClose }:
                     label="/ 100"
                     size="lg"
                   />
+                  {session.score.profile && (
+                    <p className="mt-3 text-xs text-muted-foreground">
+                      {t('session.review.score.profile', {
+                        profile: [session.score.profile.rubric, ...session.score.profile.overrides]
+                          .map((name) =>
+                            t.has(`session.review.score.profiles.${name}`)
+                              ? t(`session.review.score.profiles.${name}`)
+                              : name
+                          )
+                          .join(' + '),
+                      })}
+                    </p>
+                  )}
+                  {session.score.scorableRatio !== undefined && (
+                    <p className="mt-1 text-xs text-muted-foreground">
+                      {t('session.review.score.scorable', {
+                        percent: Math.round(session.score.scorableRatio * 100),
+                      })}
+                    </p>
+                  )}
                 </div>
               </div>
 
@@ -407,6 +556,346 @@ export function SessionDetailModal({ session: initialSession, combo, onClose }:
                 </div>
               </div>
 
+              {/* Combo sequence - missing on sessions scored before sequence checks */}
+              {session.score.sequence && session.score.sequence.attemptedReps > 0 && (
+                <div className="rounded-xl border border-border bg-muted/30 p-4">
+                  <h4 className="mb-3 text-sm font-medium text-foreground">
+                    {t('session.review.sequence.title')}
+                  </h4>
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="text-muted-foreground">
+                      {t('session.review.sequence.cleanReps')}
+                    </span>
+                    <span className="font-bold text-foreground">
+                      {session.score.sequence.cleanReps} / {session.score.sequence.attemptedReps}
+                    </span>
+                  </div>
+                  {session.score.sequence.weakestPosition !== null &&
+                    MOVES[combo.moveIds[session.score.sequence.weakestPosition]] && (
+                    <p className="mt-2 text-sm text-yellow-600 dark:text-yellow-400">
+                      {t('session.review.sequence.weakest', {
+                        position: session.score.sequence.weakestPosition + 1,
+                        move: t(MOVES[combo.moveIds[session.score.sequence.weakestPosition]].nameKey),
+                      })}
+                    </p>
+                  )}
+                </div>
+              )}
+
+              {/* Per-move breakdown - missing on sessions scored before it existed */}
+              {session.score.moves && session.score.moves.length > 0 && (
+                <div className="rounded-xl border border-border bg-muted/30 p-4">
+                  <h4 className="mb-3 text-sm font-medium text-foreground">
+                    {t('session.review.moves.title')}
+                  </h4>
+                  <div className="space-y-3">
+                    {session.score.moves.map((moveScore) => (
+                      <div key={moveScore.position}>
+                        <div className="mb-1 flex items-center justify-between text-sm">
+                          <span className="font-medium text-foreground">
+                            {moveScore.position + 1}. {MOVES[moveScore.moveId] ? t(MOVES[moveScore.moveId].nameKey) : moveScore.moveId}
+                          </span>
+                          <span className="text-muted-foreground">
+                            {moveScore.strikes > 0 && moveScore.execution !== null ? moveScore.execution : '—'}
+                          </span>
+                        </div>
+                        <div className="h-1.5 overflow-hidden rounded-full bg-muted">
+                          <div
+                            className="h-full bg-primary-500"
+                            style={{ width: `${moveScore.execution ?? 0}%` }}
+                          />
+                        </div>
+                        {moveScore.strikes > 0 && (
+                          <div className="mt-1 flex gap-4 text-xs text-muted-foreground">
+                            {moveScore.avgExtensionAngle !== null && (
+                              <span>
+                                {t('session.review.moves.angle', { angle: moveScore.avgExtensionAngle })}
+                              </span>
+                            )}
+                            {moveScore.guardUpRatio !== null && (
+                              <span>
+                                {t('session.review.moves.guard', {
+                                  percent: Math.round(moveScore.guardUpRatio * 100),
+                                })}
+                              </span>
+                            )}
+                          </div>
+                        )}
+                        {moveScore.kick && (
+                          <div className="mt-1 flex flex-wrap gap-x-4 text-xs text-muted-foreground">
+                            <span>
+                              {t('session.review.moves.kick.height', {
+                                value: moveScore.kick.footAboveHip.toFixed(1),
+                              })}
+                            </span>
+                            <span>
+                              {t('session.review.moves.kick.chamber', { angle: moveScore.kick.chamberAngle })}
+                            </span>
+                            <span>
+                              {t('session.review.moves.kick.support', { angle: moveScore.kick.supportKneeAngle })}
+                            </span>
+                            <span>
+                              {t('session.review.moves.kick.pivot', { angle: moveScore.kick.pivot })}
+                            </span>
+                          </div>
+                        )}
+                        {moveScore.reference && (
+                          <div className="mt-1 flex flex-wrap gap-x-4 text-xs text-muted-foreground">
+                            <span>
+                              {t('session.review.moves.reference.similarity', {
+                                percent: moveScore.reference.similarity,
+                              })}
+                            </span>
+                            <span>
+                              {t('session.review.moves.reference.worstJoint', {
+                                joint: t(`session.review.moves.joints.${moveScore.reference.worstJoint}`),
+                              })}
+                            </span>
+                          </div>
+                        )}
+                        {moveScore.technique && moveScore.technique.feedback.length > 0 && (
+                          <ul className="mt-1 space-y-0.5 text-xs text-yellow-600 dark:text-yellow-400">
+                            {moveScore.technique.feedback.map((key) => (
+                              <li key={key}>• {t(key)}</li>
+                            ))}
+                          </ul>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                  {moveGap >= 10 && bestMove && worstMove && (
+                    <p className="mt-3 text-sm text-yellow-600 dark:text-yellow-400">
+                      {t('session.review.moves.gap', {
+                        weak: MOVES[worstMove.moveId] ? t(MOVES[worstMove.moveId].nameKey) : worstMove.moveId,
+                        strong: MOVES[bestMove.moveId] ? t(MOVES[bestMove.moveId].nameKey) : bestMove.moveId,
+                        points: moveGap,
+                      })}
+                    </p>
+                  )}
+                </div>
+              )}
+
+              {/* Strike speed per move - missing on sessions scored before it existed */}
+              {spedMoves.length > 0 && maxSpeed > 0 && (
+                <div className="rounded-xl border border-border bg-muted/30 p-4">
+                  <h4 className="mb-1 text-sm font-medium text-foreground">
+                    {t('session.review.speed.title')}
+                  </h4>
+                  <p className="mb-3 text-xs text-muted-foreground">
+                    {t('session.review.speed.unit')}
+                  </p>
+                  <div className="space-y-3">
+                    {spedMoves.map((moveScore) => (
+                      <div key={moveScore.position}>
+                        <div className="mb-1 flex items-center justify-between text-sm">
+                          <span className="font-medium text-foreground">
+                            {moveScore.position + 1}. {MOVES[moveScore.moveId] ? t(MOVES[moveScore.moveId].nameKey) : moveScore.moveId}
+                          </span>
+                          <span className="text-muted-foreground">
+                            {t('session.review.speed.values', {
+                              avg: (moveScore.avgSpeed ?? 0).toFixed(1),
+                              top: (moveScore.topSpeed ?? 0).toFixed(1),
+                            })}
+                          </span>
+                        </div>
+                        {/* Average as the bar, top speed as the marker */}
+                        <div className="relative h-1.5 rounded-full bg-muted">
+                          <div
+                            className="h-full rounded-full bg-primary-500"
+                            style={{ width: `${((moveScore.avgSpeed ?? 0) / maxSpeed) * 100}%` }}
+                          />
+                          <div
+                            className="absolute -top-0.5 h-2.5 w-0.5 bg-foreground"
+                            style={{ left: `calc(${((moveScore.topSpeed ?? 0) / maxSpeed) * 100}% - 1px)` }}
+                          />
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {/* Head position - missing on sessions scored before head tracking */}
+              {session.score.head && (
+                <div className="rounded-xl border border-border bg-muted/30 p-4">
+                  <h4 className="mb-3 text-sm font-medium text-foreground">
+                    {t('session.review.head.title')}
+                  </h4>
+                  <div className="grid grid-cols-3 gap-4 text-center">
+                    {([
+                      ['chinTucked', session.score.head.chinTuckedRatio],
+                      ['centered', session.score.head.centeredRatio],
+                      ['leaning', session.score.head.leaningRatio],
+                    ] as const).map(([key, ratio]) => (
+                      <div key={key}>
+                        <div className="text-2xl font-bold text-foreground">
+                          {ratio !== null ? `${Math.round(ratio * 100)}%` : '—'}
+                        </div>
+                        <div className="text-xs text-muted-foreground">
+                          {t(`session.review.head.${key}`)}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {/* Return to guard - missing on older sessions or when no strike was measured */}
+              {session.score.returnToGuard && (
+                <div className="rounded-xl border border-border bg-muted/30 p-4">
+                  <h4 className="mb-3 text-sm font-medium text-foreground">
+                    {t('session.review.returnToGuard.title')}
+                  </h4>
+                  <div className="grid grid-cols-2 gap-4 text-center">
+                    <div>
+                      <div className="text-2xl font-bold text-foreground">
+                        {(session.score.returnToGuard.avgMs / 1000).toFixed(2)}s
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        {t('session.review.returnToGuard.average')}
+                      </div>
+                    </div>
+                    <div>
+                      <div className="text-2xl font-bold text-foreground">
+                        {session.score.returnToGuard.slowStrikes} / {session.score.returnToGuard.strikes}
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        {t('session.review.returnToGuard.slow')}
+                      </div>
+                    </div>
+                  </div>
+                  {session.score.returnToGuard.worst.length > 0 && (
+                    <div className="mt-4">
+                      <p className="mb-2 text-xs text-muted-foreground">
+                        {t('session.review.returnToGuard.worst')}
+                      </p>
+                      <ul className="space-y-1 text-sm">
+                        {session.score.returnToGuard.worst.map((strike) => (
+                          <li key={strike.time} className="flex items-center justify-between">
+                            <span className="text-foreground">
+                              {t(`session.practice.coaching.limbs.${strike.limb}`)}{' '}
+                              <span className="text-muted-foreground">
+                                {t('session.review.returnToGuard.at', { time: formatRoundTime(strike.time) })}
+                              </span>
+                            </span>
+                            <span className="font-medium text-foreground">
+                              {(strike.latencyMs / 1000).toFixed(2)}s
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {/* Round consistency - missing on older sessions and short rounds */}
+              {fatigue && (
+                <div className="rounded-xl border border-border bg-muted/30 p-4">
+                  <h4 className="mb-1 text-sm font-medium text-foreground">
+                    {t('session.review.fatigue.title')}
+                  </h4>
+                  <p className="mb-3 text-xs text-muted-foreground">
+                    {t('session.review.fatigue.windows', {
+                      seconds: fatigue.windowMs / 1000,
+                    })}
+                  </p>
+                  <div className="space-y-3">
+                    {FATIGUE_ROWS.map((row) => {
+                      const values = fatigue.windows.map(row.value);
+                      const present = values.filter((v): v is number => v !== null);
+                      if (present.length === 0) return null;
+                      const drop = fatigue.drops.find((d) => d.metric === row.metric);
+
+                      return (
+                        <div key={row.metric}>
+                          <div className="mb-1 flex items-center justify-between text-sm">
+                            <span className="font-medium text-foreground">
+                              {t(`session.review.fatigue.metrics.${row.metric}`)}
+                            </span>
+                            <span className="text-muted-foreground">
+                              {row.format(present[0])} → {row.format(present[present.length - 1])}
+                            </span>
+                          </div>
+                          <Sparkline
+                            values={values}
+                            min={row.min}
+                            max={row.max}
+                            className={`h-10 w-full ${drop ? 'text-yellow-500' : 'text-primary-500'}`}
+                          />
+                          {drop && (
+                            <p className="mt-1 text-xs text-yellow-600 dark:text-yellow-400">
+                              {t('session.review.fatigue.dropFrom', { time: formatRoundTime(drop.from) })}
+                            </p>
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+              )}
+
+              {/* Training volume - missing on sessions recorded before rep counting */}
+              {session.reps && session.reps.totalStrikes > 0 && (
+                <div className="rounded-xl border border-border bg-muted/30 p-4">
+                  <h4 className="mb-3 text-sm font-medium text-foreground">
+                    {t('session.review.reps.title')}
+                  </h4>
+                  <div className="grid grid-cols-2 gap-4 text-center">
+                    <div>
+                      <div className="text-2xl font-bold text-foreground">
+                        {session.reps.comboReps}
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        {t('session.review.reps.comboReps')}
+                      </div>
+                    </div>
+                    <div>
+                      <div className="text-2xl font-bold text-foreground">
+                        {session.reps.totalStrikes}
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        {t('session.review.reps.totalStrikes')}
+                      </div>
+                    </div>
+                  </div>
+                  <div className="mt-4 flex flex-wrap gap-2">
+                    {Object.entries(session.reps.strikesByMove).map(([moveId, count]) =>
+                      MOVES[moveId] ? (
+                        <span
+                          key={moveId}
+                          className="rounded-lg bg-primary-500/10 px-2.5 py-1 text-xs font-medium text-primary-600 dark:text-primary-400"
+                        >
+                          {t(MOVES[moveId].nameKey)} × {count}
+                        </span>
+                      ) : null
+                    )}
+                    {Object.entries(session.reps.strikesByType).map(([type, count]) => (
+                      <span
+                        key={type}
+                        className="rounded-lg bg-muted px-2.5 py-1 text-xs text-muted-foreground"
+                      >
+                        {t(`moves.types.${type}`)} × {count}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {/* Safety - times jump the local video when there is one */}
+              {session.score.safety && (
+                <SafetyWarnings
+                  warnings={session.score.safety}
+                  onSeek={localVideoUrl ? (ms) => {
+                    const video = videoRef.current;
+                    if (video) {
+                      video.currentTime = ms / 1000;
+                      video.play();
+                    }
+                  } : undefined}
+                />
+              )}
+
               {/* Feedback */}
               <div className="rounded-xl border border-border bg-muted/30 p-4 space-y-4">
                 {/* Strengths */}
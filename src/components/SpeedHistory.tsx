@@ -0,0 +1,60 @@
+'use client';
+
+import { useTranslations } from 'next-intl';
+import type { SessionData } from '@/lib/types';
+import { MOVES } from '@/lib/combos';
+import { getTopSpeedHistory } from '@/lib/pose/speed';
+import { Sparkline } from './ui/Sparkline';
+
+// Most recent sessions plotted per move
+const MAX_POINTS = 10;
+
+interface SpeedHistoryProps {
+  history: SessionData[];
+}
+
+/**
+ * Each move's top strike speed across recent sessions
+ */
+export function SpeedHistory({ history }: SpeedHistoryProps) {
+  const t = useTranslations();
+
+  const byMove = Object.entries(getTopSpeedHistory(history))
+    .map(([moveId, points]) => ({ moveId, points: points.slice(-MAX_POINTS) }))
+    .filter(({ moveId }) => MOVES[moveId]);
+
+  if (byMove.length === 0) return null;
+
+  return (
+    <div className="mb-4 rounded-lg bg-muted p-4">
+      <h3 className="mb-1 text-sm font-medium text-foreground">{t('dashboard.history.speed.title')}</h3>
+      <p className="mb-3 text-xs text-muted-foreground">{t('dashboard.history.speed.unit')}</p>
+      <div className="grid gap-3 sm:grid-cols-2">
+        {byMove.map(({ moveId, points }) => {
+          const speeds = points.map((p) => p.topSpeed);
+          const latest = speeds[speeds.length - 1];
+          const change = latest - speeds[0];
+
+          return (
+            <div key={moveId} className="flex items-center justify-between gap-3 rounded-lg bg-card px-3 py-2">
+              <div>
+                <div className="text-sm font-medium text-foreground">
+                  {t(MOVES[moveId].nameKey)}
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  {t('dashboard.history.speed.top', { speed: latest.toFixed(1) })}
+                  {points.length > 1 && (
+                    <span className={change >= 0 ? 'ml-2 text-green-500' : 'ml-2 text-red-500'}>
+                      {change >= 0 ? '▲' : '▼'} {Math.abs(change).toFixed(1)}
+                    </span>
+                  )}
+                </div>
+              </div>
+              <Sparkline values={speeds} />
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+'use client';
+
+// Drawing size in SVG units; the element itself is sized by className
+const WIDTH = 120;
+const HEIGHT = 32;
+const PADDING = 2;
+
+interface SparklineProps {
+  values: (number | null)[]; // null leaves a gap
+  min?: number; // defaults to the smallest value
+  max?: number; // defaults to the largest value
+  className?: string;
+}
+
+/**
+ * Minimal line chart for a short series
+ */
+export function Sparkline({ values, min, max, className = 'h-8 w-28 text-primary-500' }: SparklineProps) {
+  const present = values.filter((v): v is number => v !== null);
+  if (present.length === 0) return null;
+
+  const low = min ?? Math.min(...present);
+  const range = (max ?? Math.max(...present)) - low || 1;
+  const toX = (i: number) => (values.length > 1 ? (i / (values.length - 1)) * WIDTH : WIDTH / 2);
+  const toY = (v: number) => HEIGHT - PADDING - ((v - low) / range) * (HEIGHT - PADDING * 2);
+
+  // Break the line at nulls
+  const segments: { x: number; y: number }[][] = [[]];
+  values.forEach((v, i) => {
+    if (v === null) segments.push([]);
+    else segments[segments.length - 1].push({ x: toX(i), y: toY(v) });
+  });
+
+  return (
+    <svg className={`shrink-0 ${className}`} viewBox={`0 0 ${WIDTH} ${HEIGHT}`} preserveAspectRatio="none">
+      {segments.map((points, i) =>
+        points.length > 1 ? (
+          <polyline
+            key={i}
+            points={points.map((p) => `${p.x.toFixed(1)},${p.y.toFixed(1)}`).join(' ')}
+            fill="none"
+            stroke="currentColor"
+            strokeWidth={2}
+            strokeLinejoin="round"
+            vectorEffect="non-scaling-stroke"
+          />
+        ) : points.length === 1 ? (
+          <circle key={i} cx={points[0].x} cy={points[0].y} r={1.5} fill="currentColor" />
+        ) : null
+      )}
+    </svg>
+  );
+}
@@ -3,3 +3,4 @@ export { ScoreRing } from './ScoreRing';
 export { FeatureCard } from './FeatureCard';
 export { Modal } from './Modal';
 
+export { Sparkline } from './Sparkline';
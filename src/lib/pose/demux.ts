@@ -0,0 +1,337 @@
+// ============================================
+// Video Demuxing for WebCodecs Decoding
+// Extracts the encoded video track from WebM and MP4 recordings
+// ============================================
+
+import { createFile, DataStream, Endianness, MP4BoxBuffer } from 'mp4box';
+import type { Sample, Track, VisualSampleEntry } from 'mp4box';
+
+export interface DemuxedVideoTrack {
+  config: VideoDecoderConfig;
+  chunks: EncodedVideoChunkInit[]; // decode order, timestamps in µs starting at 0
+  duration: number; // µs, from the last frame (recordings often lack a header duration)
+}
+
+// EBML element IDs used by WebM (marker bits included)
+const EBML_ID = {
+  EBML: 0x1a45dfa3,
+  SEGMENT: 0x18538067,
+  INFO: 0x1549a966,
+  TIMECODE_SCALE: 0x2ad7b1,
+  TRACKS: 0x1654ae6b,
+  TRACK_ENTRY: 0xae,
+  TRACK_NUMBER: 0xd7,
+  TRACK_TYPE: 0x83,
+  CODEC_ID: 0x86,
+  CODEC_PRIVATE: 0x63a2,
+  VIDEO: 0xe0,
+  PIXEL_WIDTH: 0xb0,
+  PIXEL_HEIGHT: 0xba,
+  CLUSTER: 0x1f43b675,
+  TIMECODE: 0xe7,
+  SIMPLE_BLOCK: 0xa3,
+  BLOCK_GROUP: 0xa0,
+  BLOCK: 0xa1,
+  REFERENCE_BLOCK: 0xfb,
+} as const;
+
+// Containers whose children are parsed inline (sizes may be unknown while recording)
+const EBML_MASTERS: number[] = [
+  EBML_ID.SEGMENT,
+  EBML_ID.INFO,
+  EBML_ID.TRACKS,
+  EBML_ID.TRACK_ENTRY,
+  EBML_ID.VIDEO,
+  EBML_ID.CLUSTER,
+  EBML_ID.BLOCK_GROUP,
+];
+
+// Matroska track type for video
+const WEBM_VIDEO_TRACK = 1;
+
+interface WebmTrack {
+  number: number;
+  type: number;
+  codecId: string;
+  codecPrivate?: Uint8Array;
+  width: number;
+  height: number;
+}
+
+/**
+ * Demux the video track of a recording.
+ * @returns null when the container or codec is not supported
+ */
+export async function demuxVideo(blob: Blob): Promise<DemuxedVideoTrack | null> {
+  const buffer = await blob.arrayBuffer();
+  const bytes = new Uint8Array(buffer);
+
+  let track: DemuxedVideoTrack | null = null;
+  if (readUint(bytes, 0, 4) === EBML_ID.EBML) {
+    track = demuxWebm(bytes);
+  } else if (String.fromCharCode(...bytes.subarray(4, 8)) === 'ftyp') {
+    track = demuxMp4(buffer);
+  }
+
+  if (!track || track.chunks.length === 0) return null;
+  return normalizeTimestamps(track);
+}
+
+/**
+ * Walk the EBML structure of a WebM file and collect video blocks
+ */
+function demuxWebm(bytes: Uint8Array): DemuxedVideoTrack | null {
+  const tracks: WebmTrack[] = [];
+  const blocks: { track: number; chunk: EncodedVideoChunkInit }[] = [];
+  let timecodeScale = 1_000_000; // ns per timecode unit
+  let clusterTimecode = 0;
+  let pos = 0;
+
+  while (pos < bytes.length) {
+    const id = readVint(bytes, pos, true);
+    if (!id) break;
+    const size = readVint(bytes, pos + id.length, false);
+    if (!size) break;
+
+    const dataStart = pos + id.length + size.length;
+    if (EBML_MASTERS.includes(id.value)) {
+      if (id.value === EBML_ID.TRACK_ENTRY) {
+        tracks.push({ number: 0, type: 0, codecId: '', width: 0, height: 0 });
+      }
+      pos = dataStart;
+      continue;
+    }
+
+    // Only masters may have an unknown size; anything else means a truncated file
+    if (size.value < 0 || dataStart + size.value > bytes.length) break;
+    const data = bytes.subarray(dataStart, dataStart + size.value);
+    const current = tracks[tracks.length - 1];
+
+    switch (id.value) {
+      case EBML_ID.TIMECODE_SCALE:
+        timecodeScale = readUint(data, 0, data.length);
+        break;
+      case EBML_ID.TRACK_NUMBER:
+        if (current) current.number = readUint(data, 0, data.length);
+        break;
+      case EBML_ID.TRACK_TYPE:
+        if (current) current.type = readUint(data, 0, data.length);
+        break;
+      case EBML_ID.CODEC_ID:
+        if (current) current.codecId = String.fromCharCode(...data).replace(/\0+$/, '');
+        break;
+      case EBML_ID.CODEC_PRIVATE:
+        if (current) current.codecPrivate = data;
+        break;
+      case EBML_ID.PIXEL_WIDTH:
+        if (current) current.width = readUint(data, 0, data.length);
+        break;
+      case EBML_ID.PIXEL_HEIGHT:
+        if (current) current.height = readUint(data, 0, data.length);
+        break;
+      case EBML_ID.TIMECODE:
+        clusterTimecode = readUint(data, 0, data.length);
+        break;
+      case EBML_ID.SIMPLE_BLOCK:
+      case EBML_ID.BLOCK: {
+        const block = parseWebmBlock(data, id.value === EBML_ID.SIMPLE_BLOCK);
+        if (block) {
+          const timecode = clusterTimecode + block.relativeTimecode;
+          blocks.push({
+            track: block.track,
+            chunk: {
+              type: block.isKey ? 'key' : 'delta',
+              timestamp: Math.round((timecode * timecodeScale) / 1000),
+              data: block.data,
+            },
+          });
+        }
+        break;
+      }
+      case EBML_ID.REFERENCE_BLOCK: {
+        // A BlockGroup that references another frame is not a keyframe
+        const last = blocks[blocks.length - 1];
+        if (last) last.chunk.type = 'delta';
+        break;
+      }
+    }
+
+    pos = dataStart + size.value;
+  }
+
+  const video = tracks.find((t) => t.type === WEBM_VIDEO_TRACK);
+  if (!video) return null;
+
+  const codec = getWebmCodec(video);
+  if (!codec) return null;
+
+  const chunks = blocks.filter((b) => b.track === video.number).map((b) => b.chunk);
+
+  return {
+    config: {
+      codec,
+      codedWidth: video.width,
+      codedHeight: video.height,
+      description: video.codecId === 'V_MPEG4/ISO/AVC' ? video.codecPrivate : undefined,
+    },
+    chunks,
+    duration: 0,
+  };
+}
+
+/**
+ * Parse the header of a (Simple)Block
+ */
+function parseWebmBlock(
+  data: Uint8Array,
+  isSimpleBlock: boolean
+): { track: number; relativeTimecode: number; isKey: boolean; data: Uint8Array } | null {
+  const track = readVint(data, 0, false);
+  if (!track || data.length < track.length + 3) return null;
+
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const relativeTimecode = view.getInt16(track.length);
+  const flags = data[track.length + 2];
+
+  // Laced blocks carry several frames; recorders don't use them for video
+  if (flags & 0x06) return null;
+
+  return {
+    track: track.value,
+    relativeTimecode,
+    isKey: isSimpleBlock ? (flags & 0x80) !== 0 : true,
+    data: data.subarray(track.length + 3),
+  };
+}
+
+/**
+ * WebCodecs codec string for a Matroska codec ID
+ */
+function getWebmCodec(track: WebmTrack): string | null {
+  switch (track.codecId) {
+    case 'V_VP8':
+      return 'vp8';
+    case 'V_VP9':
+      return 'vp09.00.10.08';
+    case 'V_AV1':
+      return 'av01.0.04M.08';
+    case 'V_MPEG4/ISO/AVC': {
+      const avcC = track.codecPrivate;
+      if (!avcC || avcC.length < 4) return null;
+      return `avc1.${[avcC[1], avcC[2], avcC[3]].map((b) => b.toString(16).padStart(2, '0')).join('')}`;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Read the first video track of an MP4 (plain or fragmented) with mp4box
+ */
+function demuxMp4(buffer: ArrayBuffer): DemuxedVideoTrack | null {
+  const file = createFile();
+  const chunks: EncodedVideoChunkInit[] = [];
+  let videoTrack: Track | null = null;
+  let failed = false;
+
+  file.onError = () => {
+    failed = true;
+  };
+  file.onReady = (info) => {
+    videoTrack = info.videoTracks[0] ?? null;
+    if (!videoTrack) return;
+    file.setExtractionOptions(videoTrack.id, null, { nbSamples: Infinity });
+    file.start();
+  };
+  file.onSamples = (_id, _user, samples: Sample[]) => {
+    for (const sample of samples) {
+      if (!sample.data) continue;
+      chunks.push({
+        type: sample.is_sync ? 'key' : 'delta',
+        timestamp: Math.round((sample.cts * 1_000_000) / sample.timescale),
+        duration: Math.round((sample.duration * 1_000_000) / sample.timescale),
+        data: sample.data,
+      });
+    }
+  };
+
+  file.appendBuffer(MP4BoxBuffer.fromArrayBuffer(buffer, 0), true);
+  file.flush();
+
+  const track = videoTrack as Track | null;
+  if (failed || !track || !track.video) return null;
+
+  return {
+    config: {
+      codec: track.codec,
+      codedWidth: track.video.width,
+      codedHeight: track.video.height,
+      description: getMp4Description(file.getTrackById(track.id).mdia.minf.stbl.stsd.entries),
+    },
+    chunks,
+    duration: 0,
+  };
+}
+
+/**
+ * Codec configuration record (avcC, hvcC, vpcC or av1C) without its box header
+ */
+function getMp4Description(entries: unknown[]): Uint8Array | undefined {
+  for (const entry of entries as VisualSampleEntry[]) {
+    const box = entry.avcC || entry.hvcC || entry.vpcC || entry.av1C;
+    if (box) {
+      const stream = new DataStream(undefined, 0, Endianness.BIG_ENDIAN);
+      (box as { write(stream: DataStream): void }).write(stream);
+      return new Uint8Array(stream.buffer, 8);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Shift timestamps so the first frame is at 0 and derive the duration
+ */
+function normalizeTimestamps(track: DemuxedVideoTrack): DemuxedVideoTrack {
+  const start = Math.min(...track.chunks.map((c) => c.timestamp));
+  const chunks = track.chunks.map((c) => ({ ...c, timestamp: c.timestamp - start }));
+  const duration = Math.max(...chunks.map((c) => c.timestamp + (c.duration ?? 0)));
+  return { ...track, chunks, duration };
+}
+
+/**
+ * Read an EBML variable-length integer
+ * @param keepMarker - IDs keep their length marker bit, sizes do not
+ * @returns value -1 for the reserved "unknown size"
+ */
+function readVint(
+  bytes: Uint8Array,
+  pos: number,
+  keepMarker: boolean
+): { value: number; length: number } | null {
+  if (pos >= bytes.length) return null;
+
+  const first = bytes[pos];
+  let length = 1;
+  while (length <= 8 && !(first & (0x80 >> (length - 1)))) length++;
+  if (length > 8 || pos + length > bytes.length) return null;
+
+  let value = keepMarker ? first : first & (0xff >> length);
+  let allOnes = value === 0xff >> length;
+  for (let i = 1; i < length; i++) {
+    value = value * 256 + bytes[pos + i];
+    if (bytes[pos + i] !== 0xff) allOnes = false;
+  }
+
+  return { value: !keepMarker && allOnes ? -1 : value, length };
+}
+
+/**
+ * Read a big-endian unsigned integer of up to 6 bytes
+ */
+function readUint(bytes: Uint8Array, pos: number, length: number): number {
+  let value = 0;
+  for (let i = 0; i < length && pos + i < bytes.length; i++) {
+    value = value * 256 + bytes[pos + i];
+  }
+  return value;
+}
@@ -0,0 +1,166 @@
+// ============================================
+// Fatigue and Consistency Across the Round
+// ============================================
+
+import type {
+  PoseFrame,
+  StrikeEvent,
+  CalibrationData,
+  FatigueScore,
+  FatigueWindow,
+  FatigueDrop,
+  FatigueMetric,
+} from '../types';
+import { isGuardUp, getElbowAngle, getConfidence, MIN_VISIBILITY } from './metrics';
+import type { GuardThresholds } from './metrics';
+import { LIMB_JOINTS, isArm } from './segmentation';
+
+// Length of each analysis window
+const WINDOW_MS = 15000;
+
+// A trailing window shorter than this share of WINDOW_MS is dropped
+const MIN_LAST_WINDOW_RATIO = 0.5;
+
+// Windows averaged into the early-round baseline
+const BASELINE_WINDOWS = 2;
+
+// Windows needed before declines are reported (baseline plus a minute of work)
+const MIN_WINDOWS_FOR_DROPS = BASELINE_WINDOWS + 2;
+
+// How far below the baseline a metric must fall to count as a drop
+const GUARD_DROP = 0.2; // share of frames
+const EXTENSION_DROP = 10; // degrees
+const STRIKE_RATE_DROP_RATIO = 0.25; // share of the baseline rate
+
+/**
+ * Split the round into windows and measure guard, punch extension and strike
+ * rate in each, so a strong first minute can't hide a collapsed last one
+ * @param guardThresholds - The rubric's guard thresholds
+ * @returns null when the round is shorter than two windows
+ */
+export function analyzeFatigue(
+  frames: PoseFrame[],
+  strikes: StrikeEvent[],
+  calibration: CalibrationData | null,
+  guardThresholds: GuardThresholds
+): FatigueScore | null {
+  if (frames.length === 0) return null;
+
+  const origin = frames[0].timestamp;
+  const duration = frames[frames.length - 1].timestamp - origin;
+  let count = Math.ceil(duration / WINDOW_MS);
+  if (duration - (count - 1) * WINDOW_MS < WINDOW_MS * MIN_LAST_WINDOW_RATIO) count--;
+  if (count < 2) return null;
+
+  const windows: FatigueWindow[] = [];
+  for (let w = 0; w < count; w++) {
+    const start = origin + w * WINDOW_MS;
+    const end = Math.min(start + WINDOW_MS, origin + duration + 1);
+    windows.push(measureWindow(frames, strikes, calibration, guardThresholds, start, end, origin));
+  }
+
+  return {
+    windowMs: WINDOW_MS,
+    windows,
+    drops: windows.length >= MIN_WINDOWS_FOR_DROPS ? findDrops(windows) : [],
+  };
+}
+
+/**
+ * Guard, extension and strike rate for the frames in [start, end)
+ */
+function measureWindow(
+  frames: PoseFrame[],
+  strikes: StrikeEvent[],
+  calibration: CalibrationData | null,
+  guardThresholds: GuardThresholds,
+  start: number,
+  end: number,
+  origin: number
+): FatigueWindow {
+  const inWindow = (time: number) => time >= start && time < end;
+  const windowStrikes = strikes.filter((s) => inWindow(s.peakTime));
+
+  // Judge the guard between strikes, where both hands belong at the face
+  const windowFrames = frames.filter((f) => inWindow(f.timestamp));
+  const idleFrames = windowFrames.filter(
+    (f) => !strikes.some((s) => f.timestamp >= s.startTime && f.timestamp <= s.endTime)
+  );
+  // Frames with a hidden wrist can't be judged
+  const guards = (idleFrames.length > 0 ? idleFrames : windowFrames)
+    .map((f) => isGuardUp(f.landmarks, calibration, guardThresholds))
+    .filter((guard) => guard.confidence >= MIN_VISIBILITY);
+  const guardUp = guards.filter((guard) => guard.leftUp && guard.rightUp).length;
+
+  // Elbow angle at each visible punch's peak
+  const punches = windowStrikes.filter((s) => {
+    if (!isArm(s.limb)) return false;
+    const { root, mid, end } = LIMB_JOINTS[s.limb];
+    return getConfidence(frames[s.peakIndex].landmarks, [root, mid, end]) >= MIN_VISIBILITY;
+  });
+  const angles = punches.map((s) => {
+    const { landmarks, worldLandmarks } = frames[s.peakIndex];
+    return getElbowAngle(landmarks, s.limb === 'leftArm' ? 'left' : 'right', {
+      worldLandmarks,
+      viewAngle: calibration?.viewAngle,
+    });
+  });
+
+  return {
+    start: start - origin,
+    guardUpRatio: guards.length > 0 ? guardUp / guards.length : null,
+    extension:
+      angles.length > 0 ? Math.round(angles.reduce((sum, a) => sum + a, 0) / angles.length) : null,
+    strikeRate: Math.round((windowStrikes.length / (end - start)) * 60000),
+  };
+}
+
+/**
+ * Metrics that fell below their early-round baseline and stayed there: the
+ * window where the drop starts must be down, and so must the average of it
+ * and every window after it
+ */
+function findDrops(windows: FatigueWindow[]): FatigueDrop[] {
+  const series: Record<FatigueMetric, (number | null)[]> = {
+    guard: windows.map((w) => w.guardUpRatio),
+    extension: windows.map((w) => w.extension),
+    strikeRate: windows.map((w) => w.strikeRate),
+  };
+
+  const drops: FatigueDrop[] = [];
+  for (const metric of Object.keys(series) as FatigueMetric[]) {
+    const values = series[metric];
+    const baseline = average(values.slice(0, BASELINE_WINDOWS));
+    if (baseline === null) continue;
+
+    const isDropped = (value: number) => {
+      switch (metric) {
+        case 'guard':
+          return baseline - value >= GUARD_DROP;
+        case 'extension':
+          return baseline - value >= EXTENSION_DROP;
+        case 'strikeRate':
+          return value <= baseline * (1 - STRIKE_RATE_DROP_RATIO);
+      }
+    };
+
+    for (let k = BASELINE_WINDOWS; k < values.length; k++) {
+      const value = values[k];
+      const rest = average(values.slice(k));
+      if (value !== null && rest !== null && isDropped(value) && isDropped(rest)) {
+        drops.push({ metric, from: windows[k].start });
+        break;
+      }
+    }
+  }
+
+  return drops;
+}
+
+/**
+ * Mean of the non-null values, or null when there are none
+ */
+function average(values: (number | null)[]): number | null {
+  const present = values.filter((v): v is number => v !== null);
+  return present.length > 0 ? present.reduce((sum, v) => sum + v, 0) / present.length : null;
+}
@@ -0,0 +1,74 @@
+// ============================================
+// Head Position and Chin Tracking
+// ============================================
+
+import type { PoseFrame, StrikeEvent, CalibrationData, HeadScore } from '../types';
+import { getHeadPosition, MIN_VISIBILITY } from './metrics';
+import { isArm } from './segmentation';
+
+// Nose above this height over the ear line (shoulder widths) means the chin is up
+const CHIN_UP_PITCH = 0;
+
+// Mouth higher than this above the lead shoulder (shoulder widths) isn't tucked
+const CHIN_TUCK_HEIGHT = 0.5;
+
+// Sideways drift of the head off the hip center allowed on punches (shoulder widths)
+const CENTER_TOLERANCE = 0.5;
+
+// Head ahead of the hips along the stance that counts as leaning in (shoulder widths)
+const FORWARD_LEAN_LIMIT = 0.5;
+
+/**
+ * Chin tuck over the whole round, plus head centering and forward lean at
+ * each punch's peak. Frames where the face was hidden are skipped.
+ * @returns null when the face was never visible
+ */
+export function measureHeadPosition(
+  frames: PoseFrame[],
+  strikes: StrikeEvent[],
+  calibration: CalibrationData | null
+): HeadScore | null {
+  let visible = 0;
+  let tucked = 0;
+  for (const frame of frames) {
+    const head = getHeadPosition(frame.landmarks, calibration);
+    if (head.confidence < MIN_VISIBILITY) continue;
+    visible++;
+    if (head.chinPitch < CHIN_UP_PITCH && head.chinHeight < CHIN_TUCK_HEIGHT) tucked++;
+  }
+  if (visible === 0) return null;
+  const chinTuckedRatio = tucked / visible;
+
+  let punches = 0;
+  let centered = 0;
+  let leanMeasured = 0;
+  let leaning = 0;
+  for (const strike of strikes) {
+    if (!isArm(strike.limb)) continue;
+
+    const { landmarks, worldLandmarks } = frames[strike.peakIndex];
+    const head = getHeadPosition(landmarks, calibration, worldLandmarks);
+    if (head.confidence < MIN_VISIBILITY) continue;
+    punches++;
+    if (Math.abs(head.centerOffset) <= CENTER_TOLERANCE) centered++;
+    if (head.forwardLean !== null) {
+      leanMeasured++;
+      if (head.forwardLean > FORWARD_LEAN_LIMIT) leaning++;
+    }
+  }
+
+  const centeredRatio = punches > 0 ? centered / punches : null;
+  const leaningRatio = leanMeasured > 0 ? leaning / leanMeasured : null;
+
+  // Each available check counts equally
+  const parts = [chinTuckedRatio];
+  if (centeredRatio !== null) parts.push(centeredRatio);
+  if (leaningRatio !== null) parts.push(1 - leaningRatio);
+
+  return {
+    chinTuckedRatio,
+    centeredRatio,
+    leaningRatio,
+    score: Math.round((parts.reduce((sum, p) => sum + p, 0) / parts.length) * 100),
+  };
+}
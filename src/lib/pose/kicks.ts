@@ -0,0 +1,173 @@
+// ============================================
+// Kick and Knee Mechanics
+// Foot height, chamber, support leg and pivot for leg strikes
+// ============================================
+
+import type { PoseFrame, StrikeEvent, CalibrationData, KickMetrics, KickFault } from '../types';
+import {
+  getKneeAngle,
+  getFootHeight,
+  getFootYaw,
+  getAngleDifference,
+  getConfidence,
+  MIN_VISIBILITY,
+} from './metrics';
+import { LIMB_JOINTS } from './segmentation';
+
+interface KickTarget {
+  minFootAboveHip: number | null; // shoulder widths; null when height isn't judged
+  maxChamberAngle: number; // knee fold before extension (degrees)
+  minSupportKneeAngle: number; // standing leg straightness at peak (degrees)
+  minPivot: number; // standing foot turn from start to peak (degrees)
+}
+
+const TEEP: KickTarget = {
+  minFootAboveHip: -0.5, // stomach height
+  maxChamberAngle: 100,
+  minSupportKneeAngle: 150,
+  minPivot: 0,
+};
+
+const ROUNDHOUSE: KickTarget = {
+  minFootAboveHip: 0, // ribs or higher
+  maxChamberAngle: 120,
+  minSupportKneeAngle: 155,
+  minPivot: 45,
+};
+
+const LOW_KICK: KickTarget = {
+  minFootAboveHip: -1.5, // thigh height
+  maxChamberAngle: 130,
+  minSupportKneeAngle: 150,
+  minPivot: 30,
+};
+
+const KNEE: KickTarget = {
+  minFootAboveHip: null,
+  maxChamberAngle: 70,
+  minSupportKneeAngle: 155,
+  minPivot: 0,
+};
+
+// Targets per move, lead and rear variants included
+const KICK_TARGETS: Record<string, KickTarget> = {
+  teep: TEEP,
+  rearTeep: TEEP,
+  roundhouse: ROUNDHOUSE,
+  leadRoundhouse: ROUNDHOUSE,
+  lowKick: LOW_KICK,
+  leadLowKick: LOW_KICK,
+  knee: KNEE,
+  leadKnee: KNEE,
+};
+
+// Points lost per unit outside the target
+const HEIGHT_PENALTY_PER_SHOULDER_WIDTH = 50;
+const ANGLE_PENALTY_PER_DEGREE = 2;
+const PIVOT_PENALTY_PER_DEGREE = 1.5;
+
+/**
+ * Kick targets for a move, or null for moves that aren't kicks or knees
+ */
+export function getKickTarget(moveId: string): KickTarget | null {
+  return KICK_TARGETS[moveId] ?? null;
+}
+
+/**
+ * Measure the mechanics of one leg strike
+ */
+export function measureKick(
+  frames: PoseFrame[],
+  strike: StrikeEvent,
+  calibration: CalibrationData | null
+): Omit<KickMetrics, 'quality'> {
+  const side = strike.limb === 'leftLeg' ? 'left' : 'right';
+  const supportSide = side === 'left' ? 'right' : 'left';
+  const viewAngle = calibration?.viewAngle;
+
+  // Highest foot position over the whole strike, while the foot was in view
+  let footAboveHip = -Infinity;
+  let footAboveShoulder = -Infinity;
+  for (let i = strike.startIndex; i <= strike.endIndex; i++) {
+    const height = getFootHeight(frames[i].landmarks, side, calibration);
+    if (height.confidence < MIN_VISIBILITY) continue;
+    footAboveHip = Math.max(footAboveHip, height.aboveHip);
+    footAboveShoulder = Math.max(footAboveShoulder, height.aboveShoulder);
+  }
+
+  // Foot never in view: fall back to the peak frame's reading
+  if (footAboveHip === -Infinity) {
+    const height = getFootHeight(frames[strike.peakIndex].landmarks, side, calibration);
+    footAboveHip = height.aboveHip;
+    footAboveShoulder = height.aboveShoulder;
+  }
+
+  // Tightest knee fold on the way up, before the leg extends, while the leg was in view
+  const { root, mid, end } = LIMB_JOINTS[strike.limb];
+  let chamberAngle = Infinity;
+  for (let i = strike.startIndex; i <= strike.peakIndex; i++) {
+    const { landmarks, worldLandmarks } = frames[i];
+    if (getConfidence(landmarks, [root, mid, end]) < MIN_VISIBILITY) continue;
+    chamberAngle = Math.min(chamberAngle, getKneeAngle(landmarks, side, { worldLandmarks, viewAngle }));
+  }
+
+  // Leg never in view: fall back to the peak frame's reading
+  if (chamberAngle === Infinity) {
+    const { landmarks, worldLandmarks } = frames[strike.peakIndex];
+    chamberAngle = getKneeAngle(landmarks, side, { worldLandmarks, viewAngle });
+  }
+
+  const start = frames[strike.startIndex];
+  const peak = frames[strike.peakIndex];
+  const supportKneeAngle = getKneeAngle(peak.landmarks, supportSide, {
+    worldLandmarks: peak.worldLandmarks,
+    viewAngle,
+  });
+  const pivot = Math.abs(
+    getAngleDifference(
+      getFootYaw(peak.landmarks, supportSide, peak.worldLandmarks),
+      getFootYaw(start.landmarks, supportSide, start.worldLandmarks)
+    )
+  );
+
+  return { footAboveHip, footAboveShoulder, chamberAngle, supportKneeAngle, pivot };
+}
+
+/**
+ * Which targets a move's averaged mechanics fell short of
+ */
+export function getKickFaults(
+  metrics: Omit<KickMetrics, 'quality'>,
+  target: KickTarget
+): KickFault[] {
+  const faults: KickFault[] = [];
+  if (target.minFootAboveHip !== null && metrics.footAboveHip < target.minFootAboveHip) {
+    faults.push('height');
+  }
+  if (metrics.chamberAngle > target.maxChamberAngle) faults.push('chamber');
+  if (metrics.supportKneeAngle < target.minSupportKneeAngle) faults.push('support');
+  if (metrics.pivot < target.minPivot) faults.push('pivot');
+  return faults;
+}
+
+/**
+ * Score measured mechanics against a move's targets (0-100)
+ */
+export function scoreKick(metrics: Omit<KickMetrics, 'quality'>, target: KickTarget): number {
+  const parts: number[] = [];
+
+  if (target.minFootAboveHip !== null) {
+    const miss = Math.max(0, target.minFootAboveHip - metrics.footAboveHip);
+    parts.push(100 - miss * HEIGHT_PENALTY_PER_SHOULDER_WIDTH);
+  }
+  parts.push(100 - Math.max(0, metrics.chamberAngle - target.maxChamberAngle) * ANGLE_PENALTY_PER_DEGREE);
+  parts.push(
+    100 - Math.max(0, target.minSupportKneeAngle - metrics.supportKneeAngle) * ANGLE_PENALTY_PER_DEGREE
+  );
+  if (target.minPivot > 0) {
+    parts.push(100 - Math.max(0, target.minPivot - metrics.pivot) * PIVOT_PENALTY_PER_DEGREE);
+  }
+
+  const total = parts.reduce((sum, part) => sum + Math.max(0, part), 0);
+  return total / parts.length;
+}
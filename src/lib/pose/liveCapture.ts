@@ -0,0 +1,127 @@
+// ============================================
+// Live Pose Capture During Recording
+// ============================================
+
+import type { AnalysisQualityPreset, DetectedPose, PoseFrame } from '../types';
+import { detectPose, initPoseLandmarker } from './pose';
+import { PoseSmoother } from './smoothing';
+
+// Called for every analysed frame, e.g. to drive a live overlay
+export type LiveFrameListener = (pose: DetectedPose | null, timestamp: number) => void;
+
+/**
+ * Runs the pose landmarker on a live camera <video> while recording.
+ * Frames are sampled at the preset fps and stamped with the recording clock,
+ * so the timeline lines up with the saved video even across pauses.
+ */
+export class LivePoseCapture {
+  private video: HTMLVideoElement;
+  private preset: AnalysisQualityPreset;
+  private getRecordingTime: (now: number) => number | null;
+  private smoother: PoseSmoother;
+  private frames: PoseFrame[] = [];
+  private listener: LiveFrameListener | null = null;
+  private running = false;
+  private busy = false;
+  private errorLogged = false;
+  private lastCaptureTime = -Infinity;
+  private videoCallbackId: number | null = null;
+  private animationFrameId: number | null = null;
+
+  /**
+   * @param getRecordingTime - Maps a performance.now() time to the recording
+   *   position in ms, or null while recording is paused
+   */
+  constructor(
+    video: HTMLVideoElement,
+    preset: AnalysisQualityPreset,
+    getRecordingTime: (now: number) => number | null
+  ) {
+    this.video = video;
+    this.preset = preset;
+    this.getRecordingTime = getRecordingTime;
+    this.smoother = new PoseSmoother(preset.smoothing);
+  }
+
+  /**
+   * Load the model and start analysing frames
+   */
+  async start(): Promise<void> {
+    await initPoseLandmarker(this.preset);
+    this.running = true;
+    this.scheduleNextFrame();
+  }
+
+  /**
+   * Stop analysing and return the captured timeline
+   */
+  stop(): PoseFrame[] {
+    this.running = false;
+
+    if (this.videoCallbackId !== null) {
+      this.video.cancelVideoFrameCallback(this.videoCallbackId);
+      this.videoCallbackId = null;
+    }
+    if (this.animationFrameId !== null) {
+      cancelAnimationFrame(this.animationFrameId);
+      this.animationFrameId = null;
+    }
+
+    return this.frames;
+  }
+
+  /**
+   * Subscribe to each analysed frame
+   */
+  setListener(listener: LiveFrameListener | null): void {
+    this.listener = listener;
+  }
+
+  /**
+   * Wait for the next presented video frame (or display frame as a fallback)
+   */
+  private scheduleNextFrame(): void {
+    if (!this.running) return;
+
+    if ('requestVideoFrameCallback' in this.video) {
+      this.videoCallbackId = this.video.requestVideoFrameCallback((now, metadata) => {
+        // Capture time matches what MediaRecorder stamps into the file
+        this.handleFrame(metadata.captureTime ?? metadata.presentationTime ?? now);
+      });
+    } else {
+      this.animationFrameId = requestAnimationFrame((now) => this.handleFrame(now));
+    }
+  }
+
+  /**
+   * Analyse one frame if it is due at the preset fps
+   */
+  private async handleFrame(frameTime: number): Promise<void> {
+    this.scheduleNextFrame();
+
+    const timestamp = this.getRecordingTime(frameTime);
+    if (timestamp === null || this.busy) return;
+    if (timestamp - this.lastCaptureTime < 1000 / this.preset.fps) return;
+
+    this.busy = true;
+    this.lastCaptureTime = timestamp;
+
+    try {
+      const pose = await detectPose(this.video, frameTime, this.preset, this.smoother);
+      if (!this.running) return;
+
+      if (pose) {
+        this.frames.push({ timestamp, ...pose });
+      }
+      this.listener?.(pose, timestamp);
+    } catch (error) {
+      // Runs every frame, so a persistent failure is only reported once
+      if (!this.errorLogged) {
+        this.errorLogged = true;
+        console.error('Live pose capture failed:', error);
+      }
+    } finally {
+      this.busy = false;
+    }
+  }
+}
@@ -0,0 +1,103 @@
+// ============================================
+// Real-time Coaching Cues
+// Turns live landmarks into guard alerts and strike ticks
+// ============================================
+
+import type { CalibrationData, DetectedPose, Limb, NormalizedLandmark } from '../types';
+import { LANDMARK_INDICES } from './pose';
+import { isGuardUp, detectPunchExtension, detectKneeLift, MIN_VISIBILITY } from './metrics';
+import type { JointAngleOptions } from './metrics';
+
+export interface CoachingCues {
+  guardDown: boolean; // guard has been down for longer than the alert delay
+  strikes: Limb[]; // limbs that reached full extension on this frame
+}
+
+/**
+ * Tracks guard and extension state across live frames
+ */
+export class LiveCoach {
+  private calibration: CalibrationData | null;
+  private guardAlertDelayMs: number;
+  private guardDownSince: number | null = null;
+  private extended: Record<Limb, boolean> = {
+    leftArm: false,
+    rightArm: false,
+    leftLeg: false,
+    rightLeg: false,
+  };
+
+  /**
+   * @param guardAlertDelayMs - How long the guard may stay down before alerting
+   */
+  constructor(calibration: CalibrationData | null, guardAlertDelayMs: number) {
+    this.calibration = calibration;
+    this.guardAlertDelayMs = guardAlertDelayMs;
+  }
+
+  /**
+   * Process one frame
+   * @param timestamp - Recording time in milliseconds
+   */
+  update(pose: DetectedPose | null, timestamp: number): CoachingCues {
+    // Nobody in frame: nothing to judge
+    if (!pose) {
+      this.guardDownSince = null;
+      return { guardDown: false, strikes: [] };
+    }
+
+    const { landmarks, worldLandmarks } = pose;
+    const angleOptions = { worldLandmarks, viewAngle: this.calibration?.viewAngle };
+    const current: Record<Limb, boolean> = {
+      leftArm: isPunchExtended(landmarks, 'left', angleOptions),
+      rightArm: isPunchExtended(landmarks, 'right', angleOptions),
+      leftLeg: detectKneeLift(landmarks, 'left').isLifted,
+      rightLeg: detectKneeLift(landmarks, 'right').isLifted,
+    };
+
+    // Count a strike once, when the limb first reaches extension
+    const strikes = (Object.keys(current) as Limb[]).filter(
+      (limb) => current[limb] && !this.extended[limb]
+    );
+    this.extended = current;
+
+    // The punching hand is allowed to leave the guard
+    const guard = isGuardUp(landmarks, this.calibration);
+    const leftDown = !guard.leftUp && !current.leftArm;
+    const rightDown = !guard.rightUp && !current.rightArm;
+
+    // A hidden wrist can't be judged: keep the current state until it reappears
+    if (guard.confidence >= MIN_VISIBILITY) {
+      if (leftDown || rightDown) {
+        this.guardDownSince ??= timestamp;
+      } else {
+        this.guardDownSince = null;
+      }
+    }
+
+    const guardDown =
+      this.guardDownSince !== null && timestamp - this.guardDownSince >= this.guardAlertDelayMs;
+
+    return { guardDown, strikes };
+  }
+}
+
+/**
+ * A straight arm only counts as a punch when the wrist is up near
+ * shoulder height; an arm hanging at the side is straight too
+ */
+function isPunchExtended(
+  landmarks: NormalizedLandmark[],
+  side: 'left' | 'right',
+  angleOptions: JointAngleOptions
+): boolean {
+  if (!detectPunchExtension(landmarks, side, angleOptions).isExtended) return false;
+
+  const shoulder =
+    landmarks[side === 'left' ? LANDMARK_INDICES.LEFT_SHOULDER : LANDMARK_INDICES.RIGHT_SHOULDER];
+  const hip = landmarks[side === 'left' ? LANDMARK_INDICES.LEFT_HIP : LANDMARK_INDICES.RIGHT_HIP];
+  const wrist =
+    landmarks[side === 'left' ? LANDMARK_INDICES.LEFT_WRIST : LANDMARK_INDICES.RIGHT_WRIST];
+
+  return wrist.y < (shoulder.y + hip.y) / 2;
+}
@@ -2,7 +2,13 @@
 // Pose Metrics Calculations
 // ============================================
 
-import type { NormalizedLandmark, CalibrationData, ViewAngle } from '../types';
+import type {
+  NormalizedLandmark,
+  WorldLandmark,
+  PoseFrame,
+  CalibrationData,
+  ViewAngle,
+} from '../types';
 import { LANDMARK_INDICES } from './pose';
 
 /**
@@ -22,6 +28,60 @@ export function calculateAngle(
   return angle;
 }
 
+/**
+ * Calculate angle between three points in 3D (in degrees)
+ */
+export function calculateAngle3D(
+  a: WorldLandmark,
+  b: WorldLandmark, // vertex
+  c: WorldLandmark
+): number {
+  const ba = { x: a.x - b.x, y: a.y - b.y, z: a.z - b.z };
+  const bc = { x: c.x - b.x, y: c.y - b.y, z: c.z - b.z };
+  const dot = ba.x * bc.x + ba.y * bc.y + ba.z * bc.z;
+  const lengths = Math.hypot(ba.x, ba.y, ba.z) * Math.hypot(bc.x, bc.y, bc.z);
+  if (lengths === 0) return 0;
+
+  const cos = Math.max(-1, Math.min(1, dot / lengths));
+  return (Math.acos(cos) * 180) / Math.PI;
+}
+
+// Joint angles that can be read in 2D or 3D
+export type AngleMetric = 'elbow' | 'knee';
+
+// Coordinate space per metric and camera angle. Facing the camera, punches
+// and knees drive toward the lens and foreshorten in 2D. Side-on, punches
+// stay in the image plane, where 2D beats the depth estimate; kicks arc
+// across the body, so no view keeps them flat.
+const ANGLE_SPACE: Record<AngleMetric, Record<ViewAngle, '2d' | '3d'>> = {
+  elbow: { front: '3d', 'three-quarter': '3d', side: '2d' },
+  knee: { front: '3d', 'three-quarter': '3d', side: '3d' },
+};
+
+export interface JointAngleOptions {
+  worldLandmarks?: WorldLandmark[]; // 3D positions for the same frame
+  viewAngle?: ViewAngle; // calibrated camera angle (front when unknown)
+}
+
+/**
+ * Angle at a joint, in 2D image space or 3D world space depending on the
+ * metric and camera angle. Falls back to 2D without world landmarks.
+ */
+export function getJointAngle(
+  landmarks: NormalizedLandmark[],
+  joints: { root: number; mid: number; end: number },
+  metric: AngleMetric,
+  options: JointAngleOptions = {}
+): number {
+  const world = options.worldLandmarks;
+  const space = ANGLE_SPACE[metric][options.viewAngle ?? 'front'];
+
+  if (space === '3d' && world && world.length === landmarks.length) {
+    return calculateAngle3D(world[joints.root], world[joints.mid], world[joints.end]);
+  }
+  return calculateAngle(landmarks[joints.root], landmarks[joints.mid], landmarks[joints.end]);
+}
+
 /**
  * Calculate distance between two landmarks
  */
@@ -32,12 +92,58 @@ export function calculateDistance(
   return Math.sqrt(Math.pow(b.x - a.x, 2) + Math.pow(b.y - a.y, 2));
 }
 
+// Landmarks below this visibility are treated as hidden; matches the
+// smoother, which holds them at their last trusted position
+export const MIN_VISIBILITY = 0.5;
+
+// Landmarks a frame needs before it can be scored at all
+const CORE_LANDMARKS = [
+  LANDMARK_INDICES.NOSE,
+  LANDMARK_INDICES.LEFT_SHOULDER,
+  LANDMARK_INDICES.RIGHT_SHOULDER,
+  LANDMARK_INDICES.LEFT_WRIST,
+  LANDMARK_INDICES.RIGHT_WRIST,
+  LANDMARK_INDICES.LEFT_HIP,
+  LANDMARK_INDICES.RIGHT_HIP,
+];
+
+/**
+ * Lowest visibility among the given landmarks (1 when MediaPipe reported none)
+ */
+export function getConfidence(landmarks: NormalizedLandmark[], indices: number[]): number {
+  return Math.min(...indices.map((i) => landmarks[i].visibility ?? 1));
+}
+
+// Landmarks that define the shoulder and hip lines
+const TORSO_LANDMARKS = [
+  LANDMARK_INDICES.LEFT_SHOULDER,
+  LANDMARK_INDICES.RIGHT_SHOULDER,
+  LANDMARK_INDICES.LEFT_HIP,
+  LANDMARK_INDICES.RIGHT_HIP,
+];
+
+/**
+ * Whether the head, shoulders, wrists and hips were all visible on a frame
+ */
+export function isFrameScorable(landmarks: NormalizedLandmark[]): boolean {
+  return getConfidence(landmarks, CORE_LANDMARKS) >= MIN_VISIBILITY;
+}
+
+/**
+ * Share of frames that could be scored (0 for no frames)
+ */
+export function getScorableRatio(frames: PoseFrame[]): number {
+  if (frames.length === 0) return 0;
+  return frames.filter((f) => isFrameScorable(f.landmarks)).length / frames.length;
+}
+
 /**
  * Get elbow angle (shoulder -> elbow -> wrist)
  */
 export function getElbowAngle(
   landmarks: NormalizedLandmark[],
-  side: 'left' | 'right'
+  side: 'left' | 'right',
+  options?: JointAngleOptions
 ): number {
   const shoulderIdx =
     side === 'left'
@@ -52,10 +158,11 @@ export function getElbowAngle(
       ? LANDMARK_INDICES.LEFT_WRIST
       : LANDMARK_INDICES.RIGHT_WRIST;
 
-  return calculateAngle(
-    landmarks[shoulderIdx],
-    landmarks[elbowIdx],
-    landmarks[wristIdx]
+  return getJointAngle(
+    landmarks,
+    { root: shoulderIdx, mid: elbowIdx, end: wristIdx },
+    'elbow',
+    options
   );
 }
 
@@ -64,7 +171,8 @@ export function getElbowAngle(
  */
 export function getKneeAngle(
   landmarks: NormalizedLandmark[],
-  side: 'left' | 'right'
+  side: 'left' | 'right',
+  options?: JointAngleOptions
 ): number {
   const hipIdx =
     side === 'left' ? LANDMARK_INDICES.LEFT_HIP : LANDMARK_INDICES.RIGHT_HIP;
@@ -75,10 +183,11 @@ export function getKneeAngle(
       ? LANDMARK_INDICES.LEFT_ANKLE
       : LANDMARK_INDICES.RIGHT_ANKLE;
 
-  return calculateAngle(
-    landmarks[hipIdx],
-    landmarks[kneeIdx],
-    landmarks[ankleIdx]
+  return getJointAngle(
+    landmarks,
+    { root: hipIdx, mid: kneeIdx, end: ankleIdx },
+    'knee',
+    options
   );
 }
 
@@ -158,59 +267,215 @@ export function estimateViewAngle(landmarks: NormalizedLandmark[]): ViewAngle {
   }
 }
 
+// Shoulder width relative to torso length when facing the camera
+const FRONT_SHOULDER_TO_TORSO = 0.7;
+
+// Share of the real shoulder width seen from each camera angle
+const VIEW_FORESHORTENING: Record<ViewAngle, number> = {
+  front: 1,
+  'three-quarter': 0.75,
+  side: 0.4,
+};
+
+// Guard thresholds, in shoulder widths
+const DEFAULT_GUARD_HEIGHT = 0.25; // wrists slightly above the nose
+const MIN_GUARD_HEIGHT = -0.75; // calibrated heights outside this range
+const MAX_GUARD_HEIGHT = 0.75; // mean the hands weren't in guard
+const GUARD_DROP_TOLERANCE = 0.75; // how far below guard height a wrist still counts
+const GUARD_MAX_REACH = 1.5; // horizontal wrist distance from the nose
+const GUARD_OPTIMAL_TOLERANCE = 0.5; // bonus window around guard height
+const GUARD_OPTIMAL_TOLERANCE_GLOVES = 0.75;
+
 /**
- * Check if guard is up (wrists near face)
+ * Body scale (real shoulder width) used to normalize distances.
+ * Uses the calibrated shoulder width, or estimates it from this frame
+ * when there is no calibration.
  */
-export function isGuardUp(
+export function getBodyScale(
   landmarks: NormalizedLandmark[],
   calibration: CalibrationData | null
-): { score: number; leftUp: boolean; rightUp: boolean } {
+): number {
+  if (calibration && calibration.baselineScale > 0) {
+    return calibration.baselineScale / VIEW_FORESHORTENING[calibration.viewAngle];
+  }
+
+  // Shoulders narrow when turned side-on; torso length doesn't
+  return Math.max(
+    getShoulderWidth(landmarks),
+    getTorsoLength(landmarks) * FRONT_SHOULDER_TO_TORSO
+  );
+}
+
+/**
+ * Guard height (wrist height above the nose, in shoulder widths) captured
+ * during calibration, or a typical guard when uncalibrated
+ */
+export function getGuardHeight(calibration: CalibrationData | null): number {
+  if (!calibration || calibration.baselineScale <= 0) return DEFAULT_GUARD_HEIGHT;
+
+  const scale = calibration.baselineScale / VIEW_FORESHORTENING[calibration.viewAngle];
+  const height = calibration.baselineGuardHeight / scale;
+  if (height < MIN_GUARD_HEIGHT || height > MAX_GUARD_HEIGHT) return DEFAULT_GUARD_HEIGHT;
+  return height;
+}
+
+// How strictly a wrist must hold the guard, in shoulder widths
+export interface GuardThresholds {
+  dropTolerance: number; // how far below guard height a wrist still counts
+  maxReach: number; // horizontal wrist distance from the nose
+}
+
+/**
+ * Check if guard is up (wrists near face, relative to the calibrated guard).
+ * Confidence is the lowest visibility of the nose and wrists; callers
+ * averaging the guard should skip or down-weight low-confidence frames.
+ * @param thresholds - Overrides the default tolerances, e.g. from a scoring rubric
+ */
+export function isGuardUp(
+  landmarks: NormalizedLandmark[],
+  calibration: CalibrationData | null,
+  thresholds: GuardThresholds = {
+    dropTolerance: GUARD_DROP_TOLERANCE,
+    maxReach: GUARD_MAX_REACH,
+  }
+): { score: number; leftUp: boolean; rightUp: boolean; confidence: number } {
   const nose = landmarks[LANDMARK_INDICES.NOSE];
   const leftWrist = landmarks[LANDMARK_INDICES.LEFT_WRIST];
   const rightWrist = landmarks[LANDMARK_INDICES.RIGHT_WRIST];
   const leftShoulder = landmarks[LANDMARK_INDICES.LEFT_SHOULDER];
   const rightShoulder = landmarks[LANDMARK_INDICES.RIGHT_SHOULDER];
 
-  // Wrists should be above mid-chest and near face
+  const scale = getBodyScale(landmarks, calibration);
+  const guardHeight = getGuardHeight(calibration);
+
+  // Wrists should be above mid-chest and near the calibrated guard height
   const midChestY = (leftShoulder.y + rightShoulder.y) / 2;
-  const faceRegionBottom = nose.y + 0.1; // Below nose
+  const leftHeight = (nose.y - leftWrist.y) / scale;
+  const rightHeight = (nose.y - rightWrist.y) / scale;
 
-  // Adjust threshold for gloves
-  const threshold = calibration?.wearingGloves ? 0.15 : 0.1;
+  // Adjust tolerance for gloves
+  const tolerance = calibration?.wearingGloves
+    ? GUARD_OPTIMAL_TOLERANCE_GLOVES
+    : GUARD_OPTIMAL_TOLERANCE;
 
   const leftUp =
     leftWrist.y < midChestY &&
-    leftWrist.y < faceRegionBottom &&
-    Math.abs(leftWrist.x - nose.x) < 0.3;
+    leftHeight > guardHeight - thresholds.dropTolerance &&
+    Math.abs(leftWrist.x - nose.x) / scale < thresholds.maxReach;
 
   const rightUp =
     rightWrist.y < midChestY &&
-    rightWrist.y < faceRegionBottom &&
-    Math.abs(rightWrist.x - nose.x) < 0.3;
+    rightHeight > guardHeight - thresholds.dropTolerance &&
+    Math.abs(rightWrist.x - nose.x) / scale < thresholds.maxReach;
 
   // Score based on position quality
   let score = 0;
   if (leftUp) score += 50;
   if (rightUp) score += 50;
 
-  // Bonus for optimal height
-  const optimalHeight = nose.y - 0.05;
-  if (leftUp && Math.abs(leftWrist.y - optimalHeight) < threshold) score += 10;
-  if (rightUp && Math.abs(rightWrist.y - optimalHeight) < threshold) score += 10;
+  // Bonus for holding the calibrated height
+  if (leftUp && Math.abs(leftHeight - guardHeight) < tolerance) score += 10;
+  if (rightUp && Math.abs(rightHeight - guardHeight) < tolerance) score += 10;
 
   return {
     score: Math.min(100, score),
     leftUp,
     rightUp,
+    confidence: getConfidence(landmarks, [
+      LANDMARK_INDICES.NOSE,
+      LANDMARK_INDICES.LEFT_WRIST,
+      LANDMARK_INDICES.RIGHT_WRIST,
+    ]),
   };
 }
 
 /**
- * Calculate stability score based on hip movement variance
+ * Head position relative to the shoulders and hips, in shoulder widths:
+ * - chinPitch: nose height above the ear line (positive = chin up)
+ * - chinHeight: mouth height above the lead shoulder (small = chin tucked behind it)
+ * - centerOffset: nose sideways from the hip center (image plane, signed)
+ * - forwardLean: nose ahead of the hip center along the stance; null without world landmarks
+ * - confidence: lowest visibility of the face landmarks read and the lead shoulder
+ * Outside the front view the far ear and mouth corner are usually hidden, so
+ * only the lead side's, the one turned towards the camera, are read.
+ */
+export function getHeadPosition(
+  landmarks: NormalizedLandmark[],
+  calibration: CalibrationData | null,
+  worldLandmarks?: WorldLandmark[]
+): {
+  chinPitch: number;
+  chinHeight: number;
+  centerOffset: number;
+  forwardLean: number | null;
+  confidence: number;
+} {
+  const scale = getBodyScale(landmarks, calibration);
+  const nose = landmarks[LANDMARK_INDICES.NOSE];
+  const isOrthodox = (calibration?.stance ?? 'orthodox') === 'orthodox';
+  const leadShoulderIdx = isOrthodox ? LANDMARK_INDICES.LEFT_SHOULDER : LANDMARK_INDICES.RIGHT_SHOULDER;
+
+  const isFront = (calibration?.viewAngle ?? 'front') === 'front';
+  const ears = isFront
+    ? [LANDMARK_INDICES.LEFT_EAR, LANDMARK_INDICES.RIGHT_EAR]
+    : [isOrthodox ? LANDMARK_INDICES.LEFT_EAR : LANDMARK_INDICES.RIGHT_EAR];
+  const mouth = isFront
+    ? [LANDMARK_INDICES.MOUTH_LEFT, LANDMARK_INDICES.MOUTH_RIGHT]
+    : [isOrthodox ? LANDMARK_INDICES.MOUTH_LEFT : LANDMARK_INDICES.MOUTH_RIGHT];
+  const earY = ears.reduce((sum, i) => sum + landmarks[i].y, 0) / ears.length;
+  const mouthY = mouth.reduce((sum, i) => sum + landmarks[i].y, 0) / mouth.length;
+  const leadShoulder = landmarks[leadShoulderIdx];
+  const hipCenterX =
+    (landmarks[LANDMARK_INDICES.LEFT_HIP].x + landmarks[LANDMARK_INDICES.RIGHT_HIP].x) / 2;
+
+  // Forward is the stance direction (rear foot to lead foot) in the ground
+  // plane, which needs real depth from the world landmarks
+  let forwardLean: number | null = null;
+  if (worldLandmarks && worldLandmarks.length === landmarks.length) {
+    const leadAnkle =
+      worldLandmarks[isOrthodox ? LANDMARK_INDICES.LEFT_ANKLE : LANDMARK_INDICES.RIGHT_ANKLE];
+    const rearAnkle =
+      worldLandmarks[isOrthodox ? LANDMARK_INDICES.RIGHT_ANKLE : LANDMARK_INDICES.LEFT_ANKLE];
+    const leftHip = worldLandmarks[LANDMARK_INDICES.LEFT_HIP];
+    const rightHip = worldLandmarks[LANDMARK_INDICES.RIGHT_HIP];
+    const nose = worldLandmarks[LANDMARK_INDICES.NOSE];
+    const left = worldLandmarks[LANDMARK_INDICES.LEFT_SHOULDER];
+    const right = worldLandmarks[LANDMARK_INDICES.RIGHT_SHOULDER];
+
+    const dx = leadAnkle.x - rearAnkle.x;
+    const dz = leadAnkle.z - rearAnkle.z;
+    const stanceLength = Math.hypot(dx, dz);
+    const shoulderWidth = Math.hypot(left.x - right.x, left.y - right.y, left.z - right.z);
+    if (stanceLength > 0 && shoulderWidth > 0) {
+      const hipX = (leftHip.x + rightHip.x) / 2;
+      const hipZ = (leftHip.z + rightHip.z) / 2;
+      forwardLean = ((nose.x - hipX) * dx + (nose.z - hipZ) * dz) / stanceLength / shoulderWidth;
+    }
+  }
+
+  return {
+    chinPitch: (earY - nose.y) / scale,
+    chinHeight: (leadShoulder.y - mouthY) / scale,
+    centerOffset: (nose.x - hipCenterX) / scale,
+    forwardLean,
+    confidence: getConfidence(landmarks, [LANDMARK_INDICES.NOSE, ...ears, ...mouth, leadShoulderIdx]),
+  };
+}
+
+/**
+ * Calculate stability score based on hip movement variance,
+ * measured in shoulder widths so it doesn't depend on camera distance.
+ * Frames with hidden hips are left out.
  */
 export function calculateStability(
-  frames: NormalizedLandmark[][]
+  allFrames: NormalizedLandmark[][],
+  calibration: CalibrationData | null = null
 ): number {
+  const frames = allFrames.filter(
+    (landmarks) =>
+      getConfidence(landmarks, [LANDMARK_INDICES.LEFT_HIP, LANDMARK_INDICES.RIGHT_HIP]) >=
+      MIN_VISIBILITY
+  );
   if (frames.length < 2) return 100;
 
   // Track hip center movement
@@ -225,6 +490,11 @@ export function calculateStability(
       2,
   }));
 
+  // Uncalibrated: use the typical scale over the round
+  const scale = calibration && calibration.baselineScale > 0
+    ? getBodyScale(frames[0], calibration)
+    : median(frames.map((landmarks) => getBodyScale(landmarks, null)));
+
   // Calculate variance
   const meanX = hipPositions.reduce((sum, p) => sum + p.x, 0) / hipPositions.length;
   const meanY = hipPositions.reduce((sum, p) => sum + p.y, 0) / hipPositions.length;
@@ -233,33 +503,198 @@ export function calculateStability(
     hipPositions.reduce((sum, p) => {
       return sum + Math.pow(p.x - meanX, 2) + Math.pow(p.y - meanY, 2);
     }, 0) / hipPositions.length;
+  const normalizedVariance = variance / (scale * scale);
 
   // Lower variance = higher stability
-  // Scale to 0-100 (variance of 0.01 = 50% stability)
-  const stability = Math.max(0, 100 - variance * 5000);
+  // Scale to 0-100 (variance of a quarter shoulder width squared = 50% stability)
+  const stability = Math.max(0, 100 - normalizedVariance * 200);
   return Math.min(100, stability);
 }
 
+// Elbow angle from which a punch counts as extended (degrees)
+const PUNCH_EXTENSION_ANGLE = 155;
+
 /**
- * Detect punch extension (elbow angle near 180°)
+ * Detect punch extension (elbow angle near 180°). An arm that isn't
+ * visible never counts as extended.
+ * @param minAngle - Overrides the default extension angle, e.g. from a scoring rubric
  */
 export function detectPunchExtension(
   landmarks: NormalizedLandmark[],
-  side: 'left' | 'right'
-): { isExtended: boolean; angle: number } {
-  const angle = getElbowAngle(landmarks, side);
-  // Punch is extended when elbow angle is 160-180°
-  const isExtended = angle >= 155;
-  return { isExtended, angle };
+  side: 'left' | 'right',
+  options?: JointAngleOptions,
+  minAngle = PUNCH_EXTENSION_ANGLE
+): { isExtended: boolean; angle: number; confidence: number } {
+  const angle = getElbowAngle(landmarks, side, options);
+  const confidence = getConfidence(
+    landmarks,
+    side === 'left'
+      ? [LANDMARK_INDICES.LEFT_SHOULDER, LANDMARK_INDICES.LEFT_ELBOW, LANDMARK_INDICES.LEFT_WRIST]
+      : [LANDMARK_INDICES.RIGHT_SHOULDER, LANDMARK_INDICES.RIGHT_ELBOW, LANDMARK_INDICES.RIGHT_WRIST]
+  );
+  const isExtended = angle >= minAngle && confidence >= MIN_VISIBILITY;
+  return { isExtended, angle, confidence };
+}
+
+/**
+ * Torso rotation seen from above: yaw of the shoulder and hip lines in the
+ * ground plane, and the twist between them (all in degrees). Uses world
+ * landmarks when available, otherwise MediaPipe's relative depth.
+ */
+export function getTorsoRotation(
+  landmarks: NormalizedLandmark[],
+  worldLandmarks?: WorldLandmark[]
+): { shoulderYaw: number; hipYaw: number; separation: number } {
+  const points = worldLandmarks && worldLandmarks.length === landmarks.length
+    ? worldLandmarks
+    : landmarks;
+
+  const shoulderYaw = getLineYaw(
+    points[LANDMARK_INDICES.LEFT_SHOULDER],
+    points[LANDMARK_INDICES.RIGHT_SHOULDER]
+  );
+  const hipYaw = getLineYaw(
+    points[LANDMARK_INDICES.LEFT_HIP],
+    points[LANDMARK_INDICES.RIGHT_HIP]
+  );
+
+  return { shoulderYaw, hipYaw, separation: getAngleDifference(shoulderYaw, hipYaw) };
+}
+
+/**
+ * Peak rotation of the shoulder and hip lines over a frame range, measured
+ * from the first frame with them visible (degrees, unsigned). Frames with
+ * the shoulders or hips hidden are skipped.
+ * @returns null when fewer than two frames had the torso visible
+ */
+export function getPeakRotation(
+  frames: PoseFrame[],
+  startIndex: number,
+  endIndex: number
+): { shoulder: number; hip: number } | null {
+  let shoulder = 0;
+  let hip = 0;
+  let start: ReturnType<typeof getTorsoRotation> | null = null;
+  let compared = 0;
+
+  for (let i = startIndex; i <= endIndex; i++) {
+    if (getConfidence(frames[i].landmarks, TORSO_LANDMARKS) < MIN_VISIBILITY) continue;
+    if (!start) {
+      start = getTorsoRotation(frames[i].landmarks, frames[i].worldLandmarks);
+      continue;
+    }
+    const rotation = getTorsoRotation(frames[i].landmarks, frames[i].worldLandmarks);
+    shoulder = Math.max(shoulder, Math.abs(getAngleDifference(rotation.shoulderYaw, start.shoulderYaw)));
+    hip = Math.max(hip, Math.abs(getAngleDifference(rotation.hipYaw, start.hipYaw)));
+    compared++;
+  }
+
+  return compared > 0 ? { shoulder, hip } : null;
 }
 
 /**
- * Detect knee lift (for kicks/knees)
+ * Height of the highest visible point of a foot (ankle, heel or toes) above
+ * the hip and above the shoulder, in shoulder widths (negative = below).
+ * Confidence is the visibility of the best-seen foot point.
+ */
+export function getFootHeight(
+  landmarks: NormalizedLandmark[],
+  side: 'left' | 'right',
+  calibration: CalibrationData | null
+): { aboveHip: number; aboveShoulder: number; confidence: number } {
+  const footIndices =
+    side === 'left'
+      ? [LANDMARK_INDICES.LEFT_ANKLE, LANDMARK_INDICES.LEFT_HEEL, LANDMARK_INDICES.LEFT_FOOT_INDEX]
+      : [LANDMARK_INDICES.RIGHT_ANKLE, LANDMARK_INDICES.RIGHT_HEEL, LANDMARK_INDICES.RIGHT_FOOT_INDEX];
+  const hip = landmarks[side === 'left' ? LANDMARK_INDICES.LEFT_HIP : LANDMARK_INDICES.RIGHT_HIP];
+  const shoulder =
+    landmarks[side === 'left' ? LANDMARK_INDICES.LEFT_SHOULDER : LANDMARK_INDICES.RIGHT_SHOULDER];
+
+  // Image y grows downward, so the highest point has the smallest y
+  const visible = footIndices.filter((i) => (landmarks[i].visibility ?? 1) >= MIN_VISIBILITY);
+  const footY = Math.min(...(visible.length > 0 ? visible : footIndices).map((i) => landmarks[i].y));
+  const scale = getBodyScale(landmarks, calibration);
+
+  return {
+    aboveHip: (hip.y - footY) / scale,
+    aboveShoulder: (shoulder.y - footY) / scale,
+    confidence: Math.max(...footIndices.map((i) => landmarks[i].visibility ?? 1)),
+  };
+}
+
+/**
+ * Direction a foot points (heel to toes) in the ground plane, in degrees.
+ * Uses world landmarks when available, otherwise MediaPipe's relative depth.
+ */
+export function getFootYaw(
+  landmarks: NormalizedLandmark[],
+  side: 'left' | 'right',
+  worldLandmarks?: WorldLandmark[]
+): number {
+  const points = worldLandmarks && worldLandmarks.length === landmarks.length
+    ? worldLandmarks
+    : landmarks;
+  return getLineYaw(
+    points[side === 'left' ? LANDMARK_INDICES.LEFT_HEEL : LANDMARK_INDICES.RIGHT_HEEL],
+    points[side === 'left' ? LANDMARK_INDICES.LEFT_FOOT_INDEX : LANDMARK_INDICES.RIGHT_FOOT_INDEX]
+  );
+}
+
+/**
+ * Peak speed of one landmark over a frame range, in shoulder widths per
+ * second so it compares between people and camera distances. Steps where
+ * the landmark was hidden are skipped, since held positions jump on reappearing.
+ */
+export function getPeakVelocity(
+  frames: PoseFrame[],
+  landmarkIndex: number,
+  startIndex: number,
+  endIndex: number,
+  calibration: CalibrationData | null
+): number {
+  let peak = 0;
+
+  for (let i = Math.max(1, startIndex); i <= endIndex; i++) {
+    const prev = frames[i - 1];
+    const curr = frames[i];
+    const dt = (curr.timestamp - prev.timestamp) / 1000;
+    if (dt <= 0) continue;
+    if (getConfidence(prev.landmarks, [landmarkIndex]) < MIN_VISIBILITY) continue;
+    if (getConfidence(curr.landmarks, [landmarkIndex]) < MIN_VISIBILITY) continue;
+
+    const distance = calculateDistance(prev.landmarks[landmarkIndex], curr.landmarks[landmarkIndex]);
+    const scale = getBodyScale(curr.landmarks, calibration);
+    peak = Math.max(peak, distance / scale / dt);
+  }
+
+  return peak;
+}
+
+/**
+ * Yaw of the line from a to b in the x-z (ground) plane, in degrees
+ */
+function getLineYaw(a: WorldLandmark, b: WorldLandmark): number {
+  return (Math.atan2(b.z - a.z, b.x - a.x) * 180) / Math.PI;
+}
+
+/**
+ * Signed difference a - b wrapped to -180..180 degrees
+ */
+export function getAngleDifference(a: number, b: number): number {
+  const diff = (a - b) % 360;
+  if (diff > 180) return diff - 360;
+  if (diff < -180) return diff + 360;
+  return diff;
+}
+
+/**
+ * Detect knee lift (for kicks/knees). A leg that isn't visible never
+ * counts as lifted.
  */
 export function detectKneeLift(
   landmarks: NormalizedLandmark[],
   side: 'left' | 'right'
-): { isLifted: boolean; height: number } {
+): { isLifted: boolean; height: number; confidence: number } {
   const hipIdx =
     side === 'left' ? LANDMARK_INDICES.LEFT_HIP : LANDMARK_INDICES.RIGHT_HIP;
   const kneeIdx =
@@ -270,9 +705,10 @@ export function detectKneeLift(
 
   // Knee lift detected when knee is at or above hip level
   const height = hip.y - knee.y;
-  const isLifted = height > 0;
+  const confidence = getConfidence(landmarks, [hipIdx, kneeIdx]);
+  const isLifted = height > 0 && confidence >= MIN_VISIBILITY;
 
-  return { isLifted, height };
+  return { isLifted, height, confidence };
 }
 
 /**
@@ -281,7 +717,8 @@ export function detectKneeLift(
 export function checkFramingQuality(
   landmarks: NormalizedLandmark[]
 ): { headVisible: boolean; hipsVisible: boolean; anklesVisible: boolean; overallScore: number } {
-  const threshold = 0.3; // visibility threshold
+  // Looser than MIN_VISIBILITY: framing only needs the body roughly in view
+  const threshold = 0.3;
 
   const head = landmarks[LANDMARK_INDICES.NOSE];
   const leftHip = landmarks[LANDMARK_INDICES.LEFT_HIP];
@@ -305,3 +742,12 @@ export function checkFramingQuality(
   return { headVisible, hipsVisible, anklesVisible, overallScore };
 }
 
+/**
+ * Median of a list of values (0 for an empty list)
+ */
+export function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
@@ -0,0 +1,178 @@
+// ============================================
+// Per-Move Scoring Breakdown
+// ============================================
+
+import type {
+  PoseFrame,
+  Move,
+  StrikeEvent,
+  CalibrationData,
+  MoveScore,
+  KickMetrics,
+  ScoringRubric,
+  TechniqueScore,
+} from '../types';
+import { isGuardUp, MIN_VISIBILITY } from './metrics';
+import type { GuardThresholds } from './metrics';
+import { getStrikeSpeed } from './speed';
+import { checkTechnique, checkDefensiveSlots, getPeakAngle, isStrikeVisible } from './techniques';
+import { getDefensiveSlots } from './sequence';
+import { compareToReference } from './reference';
+
+// Weight of technique vs. guard discipline in a move's execution score
+const SHAPE_WEIGHT = 0.7;
+const GUARD_WEIGHT = 0.3;
+
+/**
+ * Score each position of the combo from the strikes matched to it, or for
+ * defensive moves from the gaps between strikes they belong in
+ */
+export function scoreMoves(
+  frames: PoseFrame[],
+  strikes: StrikeEvent[],
+  positions: (number | null)[],
+  comboMoves: Pick<Move, 'id' | 'type' | 'keyframes'>[],
+  calibration: CalibrationData | null,
+  rubric: ScoringRubric
+): MoveScore[] {
+  const defensiveSlots = getDefensiveSlots(strikes, positions, comboMoves);
+
+  return comboMoves.map((move, position) => {
+    if (move.type === 'defensive') {
+      const slots = defensiveSlots[position];
+      const technique = checkDefensiveSlots(frames, slots, { calibration, rubric });
+      return {
+        moveId: move.id,
+        position,
+        strikes: technique ? slots.length : 0,
+        // Slots where the wrists were never visible can't be judged
+        execution: technique ? technique.score : slots.length > 0 ? null : 0,
+        avgExtensionAngle: null,
+        guardUpRatio: technique ? technique.evidence.guardUpRatio : null,
+        technique,
+      };
+    }
+
+    const matched = strikes.filter((_, i) => positions[i] === position);
+    if (matched.length === 0) {
+      return {
+        moveId: move.id,
+        position,
+        strikes: 0,
+        execution: 0,
+        avgExtensionAngle: null,
+        guardUpRatio: null,
+      };
+    }
+
+    let angleSum = 0;
+    let angleCount = 0;
+    let guardSum = 0;
+    let guardCount = 0;
+    let speedSum = 0;
+    let topSpeed = 0;
+
+    for (const strike of matched) {
+      // Hidden limbs give meaningless angles
+      if (isStrikeVisible(frames, strike)) {
+        angleSum += getPeakAngle(frames, strike, calibration);
+        angleCount++;
+      }
+      const guard = getGuardUpRatio(frames, strike, calibration, rubric.guard);
+      if (guard !== null) {
+        guardSum += guard;
+        guardCount++;
+      }
+
+      const speed = getStrikeSpeed(frames, strike, calibration);
+      speedSum += speed;
+      topSpeed = Math.max(topSpeed, speed);
+    }
+
+    const guardUpRatio = guardCount > 0 ? guardSum / guardCount : null;
+    const technique = checkTechnique(frames, matched, move, { calibration, rubric });
+    const kick = getKickMetrics(technique);
+    const reference = compareToReference(
+      frames,
+      matched,
+      move,
+      calibration?.stance ?? 'orthodox'
+    );
+
+    return {
+      moveId: move.id,
+      position,
+      strikes: matched.length,
+      execution: getExecution(technique, guardUpRatio),
+      avgExtensionAngle: angleCount > 0 ? Math.round(angleSum / angleCount) : null,
+      guardUpRatio,
+      kick,
+      avgSpeed: Math.round((speedSum / matched.length) * 10) / 10,
+      topSpeed: Math.round(topSpeed * 10) / 10,
+      technique,
+      reference,
+    };
+  });
+}
+
+/**
+ * Technique blended with guard discipline. When only one of them could be
+ * seen it stands alone.
+ * @returns null when neither the strikes nor the guard hand were visible
+ */
+function getExecution(technique: TechniqueScore | undefined, guardUpRatio: number | null): number | null {
+  if (!technique && guardUpRatio === null) return null;
+  if (!technique) return Math.round((guardUpRatio ?? 0) * 100);
+  if (guardUpRatio === null) return technique.score;
+  return Math.round(technique.score * SHAPE_WEIGHT + guardUpRatio * 100 * GUARD_WEIGHT);
+}
+
+/**
+ * Kick mechanics averaged over a leg move's strikes, as measured by its
+ * technique checker
+ * @returns undefined for moves without kick targets or strikes thrown by the arms
+ */
+function getKickMetrics(technique: TechniqueScore | undefined): KickMetrics | undefined {
+  const evidence = technique?.evidence;
+  if (evidence?.kickQuality === undefined) return undefined;
+
+  return {
+    footAboveHip: evidence.footAboveHip,
+    footAboveShoulder: evidence.footAboveShoulder,
+    chamberAngle: Math.round(evidence.chamberAngle),
+    supportKneeAngle: Math.round(evidence.supportKneeAngle),
+    pivot: Math.round(evidence.pivot),
+    quality: Math.round(evidence.kickQuality),
+  };
+}
+
+/**
+ * Share of the strike's frames where the non-striking hand(s) stayed up.
+ * Punches and elbows need the other hand up; kicks and knees need both.
+ * Frames with a hidden wrist are skipped.
+ * @returns null when no frame could be judged
+ */
+function getGuardUpRatio(
+  frames: PoseFrame[],
+  strike: StrikeEvent,
+  calibration: CalibrationData | null,
+  guardThresholds: GuardThresholds
+): number | null {
+  let upFrames = 0;
+  let total = 0;
+
+  for (let i = strike.startIndex; i <= strike.endIndex; i++) {
+    const guard = isGuardUp(frames[i].landmarks, calibration, guardThresholds);
+    if (guard.confidence < MIN_VISIBILITY) continue;
+    let up: boolean;
+    if (strike.limb === 'leftArm') up = guard.rightUp;
+    else if (strike.limb === 'rightArm') up = guard.leftUp;
+    else up = guard.leftUp && guard.rightUp;
+
+    if (up) upFrames++;
+    total++;
+  }
+
+  return total > 0 ? upFrames / total : null;
+}
+
@@ -6,8 +6,17 @@ import {
   PoseLandmarker,
   FilesetResolver,
 } from '@mediapipe/tasks-vision';
-import type { NormalizedLandmark, PoseFrame, AnalysisQualityPreset } from '../types';
+import type { NormalizedLandmark, PoseFrame, DetectedPose, AnalysisQualityPreset } from '../types';
+import { MEDIAPIPE_WASM_URL } from '../types';
 import { getAnalysisQualityPreset } from '../settings';
+import { PoseSmoother } from './smoothing';
+import {
+  loadVideo,
+  seekVideo,
+  getSampleTimes,
+  createAbortError,
+} from './videoFrames';
+import { analyzeVideoInWorker, supportsWorkerAnalysis } from './workerAnalysis';
 
 // Singleton instance
 let poseLandmarker: PoseLandmarker | null = null;
@@ -80,9 +89,7 @@ export async function initPoseLandmarker(preset?: AnalysisQualityPreset): Promis
   currentModelUrl = qualityPreset.modelUrl;
 
   initPromise = (async () => {
-    const vision = await FilesetResolver.forVisionTasks(
-      'https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@latest/wasm'
-    );
+    const vision = await FilesetResolver.forVisionTasks(MEDIAPIPE_WASM_URL);
 
     poseLandmarker = await PoseLandmarker.createFromOptions(vision, {
       baseOptions: {
@@ -115,24 +122,36 @@ export function getPoseLandmarker(): PoseLandmarker | null {
  * @param video - Video element to detect pose from
  * @param timestamp - Current timestamp in milliseconds
  * @param preset - Optional quality preset override
+ * @param smoother - Optional temporal filter applied to the detected landmarks
  */
 export async function detectPose(
   video: HTMLVideoElement,
   timestamp: number,
-  preset?: AnalysisQualityPreset
-): Promise<NormalizedLandmark[] | null> {
+  preset?: AnalysisQualityPreset,
+  smoother?: PoseSmoother
+): Promise<DetectedPose | null> {
   const landmarker = await initPoseLandmarker(preset);
 
   try {
     const result = landmarker.detectForVideo(video, timestamp);
 
     if (result.landmarks && result.landmarks.length > 0) {
-      return result.landmarks[0].map((lm) => ({
-        x: lm.x,
-        y: lm.y,
-        z: lm.z,
-        visibility: lm.visibility,
-      }));
+      const pose: DetectedPose = {
+        landmarks: result.landmarks[0].map((lm) => ({
+          x: lm.x,
+          y: lm.y,
+          z: lm.z,
+          visibility: lm.visibility,
+        })),
+        // Metric 3D positions, used for view-independent joint angles
+        worldLandmarks: result.worldLandmarks?.[0]?.map((lm) => ({
+          x: lm.x,
+          y: lm.y,
+          z: lm.z,
+          visibility: lm.visibility,
+        })),
+      };
+      return smoother ? smoother.smooth(pose, timestamp) : pose;
     }
 
     return null;
@@ -147,90 +166,75 @@ let lastTimestamp = 0;
 
 /**
  * Analyze a video blob and extract pose frames
- * Uses quality settings from user preferences unless overridden
+ * Uses quality settings from user preferences unless overridden.
+ * Runs in a Web Worker when the browser supports it, otherwise on the main thread.
  * @param blob - Video blob to analyze
  * @param onProgress - Progress callback (0-100)
  * @param presetOverride - Optional quality preset override
+ * @param signal - Optional signal to cancel the analysis (rejects with an AbortError)
  */
 export async function analyzeVideoBlob(
   blob: Blob,
   onProgress?: (progress: number) => void,
-  presetOverride?: AnalysisQualityPreset
+  presetOverride?: AnalysisQualityPreset,
+  signal?: AbortSignal
 ): Promise<PoseFrame[]> {
   const preset = presetOverride || getAnalysisQualityPreset();
-  const targetFps = preset.fps;
-  const maxDurationSec = preset.maxDurationSec;
-  
+
+  if (supportsWorkerAnalysis()) {
+    return analyzeVideoInWorker(blob, preset, onProgress, signal);
+  }
+
+  return analyzeVideoOnMainThread(blob, preset, onProgress, signal);
+}
+
+/**
+ * Seek-and-detect analysis on the main thread (fallback without worker support)
+ */
+async function analyzeVideoOnMainThread(
+  blob: Blob,
+  preset: AnalysisQualityPreset,
+  onProgress?: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<PoseFrame[]> {
   const frames: PoseFrame[] = [];
-  const video = document.createElement('video');
-  video.muted = true;
-  video.playsInline = true;
+  const smoother = new PoseSmoother(preset.smoothing);
 
   // Reset timestamp tracker for new analysis
   lastTimestamp = 0;
 
-  return new Promise((resolve, reject) => {
-    const url = URL.createObjectURL(blob);
-    video.src = url;
-
-    video.onloadedmetadata = async () => {
-      const duration = Math.min(video.duration, maxDurationSec);
-      const frameInterval = 1000 / targetFps;
-      let currentTime = 0;
-      const totalFrames = Math.floor((duration * 1000) / frameInterval);
-      let processedFrames = 0;
-
-      // Initialize pose landmarker with preset
-      await initPoseLandmarker(preset);
-
-      const processFrame = async () => {
-        if (currentTime > duration) {
-          URL.revokeObjectURL(url);
-          resolve(frames);
-          return;
-        }
-
-        video.currentTime = currentTime;
-
-        await new Promise<void>((resolveSeek) => {
-          video.onseeked = () => resolveSeek();
-        });
-
-        // Ensure timestamp is strictly monotonically increasing and >= 1
-        const timestamp = Math.max(Math.floor(currentTime * 1000) + 1, lastTimestamp + 1);
-        lastTimestamp = timestamp;
-
-        const landmarks = await detectPose(video, timestamp, preset);
-
-        if (landmarks) {
-          frames.push({
-            timestamp: currentTime * 1000,
-            landmarks,
-          });
-        }
-
-        processedFrames++;
-        if (onProgress) {
-          onProgress(Math.round((processedFrames / totalFrames) * 100));
-        }
-
-        currentTime += frameInterval / 1000;
-        await processFrame();
-      };
+  const { video, release } = await loadVideo(blob);
+
+  try {
+    // Initialize pose landmarker with preset
+    await initPoseLandmarker(preset);
+
+    const duration = Math.min(video.duration, preset.maxDurationSec);
+    const sampleTimes = getSampleTimes(duration, preset.fps);
+
+    for (let i = 0; i < sampleTimes.length; i++) {
+      if (signal?.aborted) throw createAbortError();
+
+      const time = sampleTimes[i];
+      await seekVideo(video, time / 1000);
 
-      try {
-        await processFrame();
-      } catch (error) {
-        URL.revokeObjectURL(url);
-        reject(error);
+      // Ensure timestamp is strictly monotonically increasing and >= 1
+      const timestamp = Math.max(Math.floor(time) + 1, lastTimestamp + 1);
+      lastTimestamp = timestamp;
+
+      const pose = await detectPose(video, timestamp, preset, smoother);
+
+      if (pose) {
+        frames.push({ timestamp: time, ...pose });
       }
-    };
 
-    video.onerror = () => {
-      URL.revokeObjectURL(url);
-      reject(new Error('Failed to load video'));
-    };
-  });
+      onProgress?.(Math.round(((i + 1) / sampleTimes.length) * 100));
+    }
+
+    return frames;
+  } finally {
+    release();
+  }
 }
 
 /**
@@ -0,0 +1,197 @@
+// ============================================
+// Pose Detection Worker
+// Runs MediaPipe on frames drawn into an OffscreenCanvas
+// ============================================
+
+import { PoseLandmarker, FilesetResolver } from '@mediapipe/tasks-vision';
+import type { AnalysisQualityPreset, DetectedPose, PoseFrame } from '../types';
+import { MEDIAPIPE_WASM_URL } from '../types';
+import { PoseSmoother } from './smoothing';
+import { demuxVideo } from './demux';
+import type { PoseWorkerRequest, PoseWorkerResponse } from './workerAnalysis';
+
+// Dedicated worker scope (the project is compiled against the DOM lib)
+const scope = self as unknown as {
+  postMessage(message: PoseWorkerResponse): void;
+  onmessage: ((event: MessageEvent<PoseWorkerRequest>) => void) | null;
+};
+
+let landmarker: PoseLandmarker | null = null;
+let smoother: PoseSmoother | null = null;
+let frameCanvas: OffscreenCanvas | null = null;
+let lastTimestamp = 0;
+
+// Encoded chunks queued in the decoder before feeding pauses
+const MAX_DECODE_QUEUE = 8;
+
+/**
+ * Load the pose model for this analysis
+ */
+async function init(preset: AnalysisQualityPreset): Promise<void> {
+  const vision = await FilesetResolver.forVisionTasks(MEDIAPIPE_WASM_URL);
+
+  landmarker = await PoseLandmarker.createFromOptions(vision, {
+    baseOptions: {
+      modelAssetPath: preset.modelUrl,
+      delegate: 'GPU',
+    },
+    // There is no DOM here, so the GPU delegate needs its own canvas
+    canvas: new OffscreenCanvas(1, 1),
+    runningMode: 'VIDEO',
+    numPoses: 1,
+    minPoseDetectionConfidence: preset.minPoseDetectionConfidence,
+    minPosePresenceConfidence: preset.minPosePresenceConfidence,
+    minTrackingConfidence: preset.minTrackingConfidence,
+  });
+  smoother = new PoseSmoother(preset.smoothing);
+  lastTimestamp = 0;
+}
+
+/**
+ * Detect the pose in one frame (closes the frame)
+ * @param timestamp - Frame time in milliseconds
+ */
+function detect(frame: ImageBitmap | VideoFrame, timestamp: number): DetectedPose | null {
+  if (!landmarker || !smoother) {
+    frame.close();
+    throw new Error('Pose worker used before init');
+  }
+
+  const width = 'displayWidth' in frame ? frame.displayWidth : frame.width;
+  const height = 'displayHeight' in frame ? frame.displayHeight : frame.height;
+  if (!frameCanvas) {
+    frameCanvas = new OffscreenCanvas(width, height);
+  } else if (frameCanvas.width !== width || frameCanvas.height !== height) {
+    frameCanvas.width = width;
+    frameCanvas.height = height;
+  }
+  frameCanvas.getContext('2d')?.drawImage(frame, 0, 0);
+  frame.close();
+
+  // MediaPipe requires strictly increasing timestamps
+  const detectTimestamp = Math.max(Math.floor(timestamp) + 1, lastTimestamp + 1);
+  lastTimestamp = detectTimestamp;
+
+  const result = landmarker.detectForVideo(frameCanvas, detectTimestamp);
+  if (!result.landmarks || result.landmarks.length === 0) return null;
+
+  const pose: DetectedPose = {
+    landmarks: result.landmarks[0].map((lm) => ({
+      x: lm.x,
+      y: lm.y,
+      z: lm.z,
+      visibility: lm.visibility,
+    })),
+    worldLandmarks: result.worldLandmarks?.[0]?.map((lm) => ({
+      x: lm.x,
+      y: lm.y,
+      z: lm.z,
+      visibility: lm.visibility,
+    })),
+  };
+  return smoother.smooth(pose, timestamp);
+}
+
+/**
+ * Demux and decode a recording with WebCodecs, detecting poses on frames
+ * sampled at the preset fps in presentation order
+ * @returns null when the container or codec is not supported
+ */
+async function decodeAndDetect(blob: Blob, preset: AnalysisQualityPreset): Promise<PoseFrame[] | null> {
+  const track = await demuxVideo(blob);
+  if (!track) return null;
+
+  const support = await VideoDecoder.isConfigSupported(track.config).catch(() => null);
+  if (!support?.supported) return null;
+
+  const frames: PoseFrame[] = [];
+  const endTime = Math.min(track.duration, preset.maxDurationSec * 1_000_000);
+  const frameInterval = 1_000_000 / preset.fps;
+  let nextSampleTime = 0;
+  let lastProgress = -1;
+  let detectError: unknown = null;
+  // Resumes feeding once the decoder drains a chunk or fails
+  let wake: (() => void) | null = null;
+
+  const decoder = new VideoDecoder({
+    output: (frame) => {
+      const time = frame.timestamp;
+      if (time < nextSampleTime || time > endTime || detectError) {
+        frame.close();
+        return;
+      }
+
+      // Skip sample slots this frame already covers
+      while (nextSampleTime <= time) nextSampleTime += frameInterval;
+
+      try {
+        const pose = detect(frame, time / 1000);
+        if (pose) frames.push({ timestamp: time / 1000, ...pose });
+      } catch (error) {
+        detectError = error;
+      }
+
+      const progress = endTime > 0 ? Math.min(100, Math.round((time / endTime) * 100)) : 100;
+      if (progress !== lastProgress) {
+        lastProgress = progress;
+        scope.postMessage({ type: 'progress', progress });
+      }
+    },
+    error: (error) => {
+      detectError = error;
+      wake?.();
+    },
+  });
+  decoder.ondequeue = () => wake?.();
+  decoder.configure(track.config);
+
+  for (const chunk of track.chunks) {
+    if (detectError) break;
+    if (chunk.timestamp > endTime) continue;
+
+    while (decoder.decodeQueueSize > MAX_DECODE_QUEUE && !detectError) {
+      await new Promise<void>((resolve) => {
+        wake = resolve;
+      });
+      wake = null;
+    }
+    if (detectError) break;
+    decoder.decode(new EncodedVideoChunk(chunk));
+  }
+
+  if (!detectError) await decoder.flush();
+  if (decoder.state !== 'closed') decoder.close();
+  if (detectError) throw detectError;
+
+  if (lastProgress !== 100) scope.postMessage({ type: 'progress', progress: 100 });
+  return frames;
+}
+
+scope.onmessage = async (event) => {
+  const message = event.data;
+
+  try {
+    switch (message.type) {
+      case 'init':
+        await init(message.preset);
+        scope.postMessage({ type: 'ready' });
+        break;
+      case 'decode': {
+        const frames = await decodeAndDetect(message.blob, message.preset);
+        scope.postMessage(frames ? { type: 'frames', frames } : { type: 'unsupported' });
+        break;
+      }
+      case 'frame':
+        scope.postMessage({
+          type: 'pose',
+          pose: detect(message.frame, message.timestamp),
+        });
+        break;
+    }
+  } catch (error) {
+    scope.postMessage({
+      type: 'error',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+};
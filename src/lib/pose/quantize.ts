@@ -0,0 +1,106 @@
+// ============================================
+// Pose Frame Quantization
+// Packs landmark timelines into typed arrays for storage
+// ============================================
+
+import type { PoseFrame, NormalizedLandmark, WorldLandmark, QuantizedPoseFrames } from '../types';
+
+const ENCODING_VERSION = 2; // 2: optional world landmarks
+
+// 1e-4 of the frame is well below a pixel; Int16 still covers ±3.2 frames.
+// World landmarks share the scale: 0.1 mm steps, ±3.2 m from the hips.
+const COORD_SCALE = 10000;
+const INT16_MAX = 32767;
+
+/**
+ * Pack pose frames into a compact quantized form (~7 bytes per landmark,
+ * plus 6 when world landmarks are kept)
+ */
+export function quantizeFrames(frames: PoseFrame[]): QuantizedPoseFrames {
+  const landmarkCount = frames.reduce((max, f) => Math.max(max, f.landmarks.length), 0);
+  const timestamps = new Float32Array(frames.length);
+  const coords = new Int16Array(frames.length * landmarkCount * 3);
+  const visibility = new Uint8Array(frames.length * landmarkCount);
+
+  // World landmarks are all or nothing, so frames stay aligned
+  const hasWorld = frames.length > 0 && frames.every((f) => f.worldLandmarks?.length);
+  const worldCoords = hasWorld ? new Int16Array(coords.length) : undefined;
+
+  frames.forEach((frame, f) => {
+    timestamps[f] = frame.timestamp;
+
+    frame.landmarks.forEach((lm, l) => {
+      const i = f * landmarkCount + l;
+      coords[i * 3] = quantizeCoord(lm.x);
+      coords[i * 3 + 1] = quantizeCoord(lm.y);
+      coords[i * 3 + 2] = quantizeCoord(lm.z);
+      visibility[i] = Math.round((lm.visibility ?? 1) * 255);
+    });
+
+    if (worldCoords) {
+      frame.worldLandmarks?.forEach((lm, l) => {
+        const i = f * landmarkCount + l;
+        worldCoords[i * 3] = quantizeCoord(lm.x);
+        worldCoords[i * 3 + 1] = quantizeCoord(lm.y);
+        worldCoords[i * 3 + 2] = quantizeCoord(lm.z);
+      });
+    }
+  });
+
+  return {
+    version: ENCODING_VERSION,
+    landmarkCount,
+    coordScale: COORD_SCALE,
+    timestamps,
+    coords,
+    visibility,
+    worldCoords,
+  };
+}
+
+/**
+ * Restore pose frames from their quantized form
+ */
+export function dequantizeFrames(data: QuantizedPoseFrames): PoseFrame[] {
+  const frames: PoseFrame[] = [];
+
+  for (let f = 0; f < data.timestamps.length; f++) {
+    const landmarks: NormalizedLandmark[] = [];
+    const worldLandmarks: WorldLandmark[] = [];
+
+    for (let l = 0; l < data.landmarkCount; l++) {
+      const i = f * data.landmarkCount + l;
+      landmarks.push({
+        x: data.coords[i * 3] / data.coordScale,
+        y: data.coords[i * 3 + 1] / data.coordScale,
+        z: data.coords[i * 3 + 2] / data.coordScale,
+        visibility: data.visibility[i] / 255,
+      });
+
+      if (data.worldCoords) {
+        worldLandmarks.push({
+          x: data.worldCoords[i * 3] / data.coordScale,
+          y: data.worldCoords[i * 3 + 1] / data.coordScale,
+          z: data.worldCoords[i * 3 + 2] / data.coordScale,
+          visibility: data.visibility[i] / 255,
+        });
+      }
+    }
+
+    frames.push(
+      data.worldCoords
+        ? { timestamp: data.timestamps[f], landmarks, worldLandmarks }
+        : { timestamp: data.timestamps[f], landmarks }
+    );
+  }
+
+  return frames;
+}
+
+/**
+ * Scale and clamp a normalized coordinate into Int16 range
+ */
+function quantizeCoord(value: number): number {
+  const scaled = Math.round(value * COORD_SCALE);
+  return Math.max(-INT16_MAX, Math.min(INT16_MAX, scaled));
+}
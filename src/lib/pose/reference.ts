@@ -0,0 +1,241 @@
+// ============================================
+// Reference Motion Comparison
+// Aligns detected strikes with the stickman keyframes shown in the learn phase
+// ============================================
+
+import type {
+  PoseFrame,
+  Move,
+  Stance,
+  StrikeEvent,
+  AvatarPose,
+  AvatarJoint,
+  NormalizedLandmark,
+  Point2D,
+  ReferenceMatch,
+} from '../types';
+import { LANDMARK_INDICES } from './pose';
+import { MIN_VISIBILITY } from './metrics';
+import { getPoseAtProgress, mirrorPose } from '../stickAvatarKeyframes';
+
+// MediaPipe landmark behind each stickman joint
+const AVATAR_LANDMARKS: Record<AvatarJoint, number> = {
+  head: LANDMARK_INDICES.NOSE,
+  leftShoulder: LANDMARK_INDICES.LEFT_SHOULDER,
+  rightShoulder: LANDMARK_INDICES.RIGHT_SHOULDER,
+  leftElbow: LANDMARK_INDICES.LEFT_ELBOW,
+  rightElbow: LANDMARK_INDICES.RIGHT_ELBOW,
+  leftWrist: LANDMARK_INDICES.LEFT_WRIST,
+  rightWrist: LANDMARK_INDICES.RIGHT_WRIST,
+  leftHip: LANDMARK_INDICES.LEFT_HIP,
+  rightHip: LANDMARK_INDICES.RIGHT_HIP,
+  leftKnee: LANDMARK_INDICES.LEFT_KNEE,
+  rightKnee: LANDMARK_INDICES.RIGHT_KNEE,
+  leftAnkle: LANDMARK_INDICES.LEFT_ANKLE,
+  rightAnkle: LANDMARK_INDICES.RIGHT_ANKLE,
+};
+
+const JOINTS = Object.keys(AVATAR_LANDMARKS) as AvatarJoint[];
+
+// One pose as stickman joints; hidden joints are left out
+type JointPositions = Partial<Record<AvatarJoint, Point2D>>;
+
+// Joints the torso normalization needs
+const TORSO_JOINTS: AvatarJoint[] = ['leftShoulder', 'rightShoulder', 'leftHip', 'rightHip'];
+
+// Poses sampled along the keyframe animation
+const REFERENCE_SAMPLES = 16;
+
+// Mean joint distance (torso lengths) that scores zero similarity
+const MAX_DEVIATION = 0.6;
+
+/**
+ * Compare every strike matched to a move with the move's keyframes. Frames
+ * with the torso hidden are skipped, and hidden joints don't count towards
+ * the similarity or the worst joint.
+ * @returns undefined when the move has no keyframes or nothing could be compared
+ */
+export function compareToReference(
+  frames: PoseFrame[],
+  strikes: StrikeEvent[],
+  move: Pick<Move, 'keyframes'>,
+  stance: Stance
+): ReferenceMatch | undefined {
+  if (strikes.length === 0 || move.keyframes.length === 0) return undefined;
+
+  const reference = getReferencePoses(move, stance);
+  const sums = new Map<AvatarJoint, { total: number; count: number }>();
+
+  for (const strike of strikes) {
+    const performed = frames
+      .slice(strike.startIndex, strike.endIndex + 1)
+      .map((frame) => normalizeLandmarks(frame.landmarks))
+      .filter((pose): pose is JointPositions => pose !== null);
+    if (performed.length === 0) continue;
+
+    const strikeDeviations = alignPoses(performed, reference);
+    for (const [joint, deviation] of strikeDeviations) {
+      const sum = sums.get(joint) ?? { total: 0, count: 0 };
+      sums.set(joint, { total: sum.total + deviation, count: sum.count + 1 });
+    }
+  }
+
+  if (sums.size === 0) return undefined;
+
+  const deviations = [...sums].map(([joint, { total, count }]) => ({ joint, deviation: total / count }));
+  const mean = deviations.reduce((sum, d) => sum + d.deviation, 0) / deviations.length;
+  const worst = deviations.reduce((a, b) => (b.deviation > a.deviation ? b : a));
+
+  return {
+    similarity: Math.round(Math.max(0, 1 - mean / MAX_DEVIATION) * 100),
+    worstJoint: worst.joint,
+    worstDeviation: Math.round(worst.deviation * 100) / 100,
+  };
+}
+
+/**
+ * Keyframe animation sampled at even progress steps, turned into the
+ * fighter's stance and normalized like the landmarks.
+ * Keyframes are drawn for orthodox; the camera image is unmirrored, so the
+ * fighter's left side appears on the right and x is flipped.
+ */
+function getReferencePoses(
+  move: Pick<Move, 'keyframes'>,
+  stance: Stance
+): JointPositions[] {
+  const poses: JointPositions[] = [];
+  for (let i = 0; i < REFERENCE_SAMPLES; i++) {
+    const pose = getPoseAtProgress(move.keyframes, i / (REFERENCE_SAMPLES - 1));
+    const oriented: AvatarPose = stance === 'southpaw' ? mirrorPose(pose) : pose;
+    const points: JointPositions = Object.fromEntries(
+      JOINTS.map((joint) => [joint, { x: -oriented[joint].x, y: oriented[joint].y }])
+    );
+    poses.push(normalizePose(points));
+  }
+  return poses;
+}
+
+/**
+ * Visible stickman joints from a frame's landmarks, normalized to the torso
+ * @returns null when the shoulders or hips are hidden
+ */
+function normalizeLandmarks(landmarks: NormalizedLandmark[]): JointPositions | null {
+  const visible = JOINTS.filter(
+    (joint) => (landmarks[AVATAR_LANDMARKS[joint]].visibility ?? 1) >= MIN_VISIBILITY
+  );
+  if (!TORSO_JOINTS.every((joint) => visible.includes(joint))) return null;
+
+  const points: JointPositions = Object.fromEntries(
+    visible.map((joint) => {
+      const landmark = landmarks[AVATAR_LANDMARKS[joint]];
+      return [joint, { x: landmark.x, y: landmark.y }];
+    })
+  );
+  return normalizePose(points);
+}
+
+/**
+ * Center joints on the torso and scale them to torso lengths, so body
+ * size and distance from the camera drop out. Needs all four TORSO_JOINTS.
+ */
+function normalizePose(points: JointPositions): JointPositions {
+  const { leftShoulder, rightShoulder, leftHip, rightHip } = points;
+  if (!leftShoulder || !rightShoulder || !leftHip || !rightHip) return {};
+
+  const shoulders = midpoint(leftShoulder, rightShoulder);
+  const hips = midpoint(leftHip, rightHip);
+  const center = midpoint(shoulders, hips);
+  const torso = Math.hypot(shoulders.x - hips.x, shoulders.y - hips.y) || 1;
+
+  return Object.fromEntries(
+    Object.entries(points).map(([joint, point]) => [
+      joint,
+      { x: (point.x - center.x) / torso, y: (point.y - center.y) / torso },
+    ])
+  );
+}
+
+/**
+ * Dynamic time warping between the performed and reference poses.
+ * Returns each joint's mean distance along the best warping path, over the
+ * steps where it was visible; joints never visible are missing.
+ */
+function alignPoses(
+  performed: JointPositions[],
+  reference: JointPositions[]
+): Map<AvatarJoint, number> {
+  const n = performed.length;
+  const m = reference.length;
+
+  // cost[i][j] = cheapest path aligning the first i performed with the first j reference poses
+  const cost: number[][] = Array.from({ length: n + 1 }, () => new Array(m + 1).fill(Infinity));
+  cost[0][0] = 0;
+  for (let i = 1; i <= n; i++) {
+    for (let j = 1; j <= m; j++) {
+      const distance = getPoseDistance(performed[i - 1], reference[j - 1]);
+      cost[i][j] = distance + Math.min(cost[i - 1][j - 1], cost[i - 1][j], cost[i][j - 1]);
+    }
+  }
+
+  // Walk the path back, summing each joint's distance
+  const totals = new Map<AvatarJoint, { total: number; steps: number }>();
+  let i = n;
+  let j = m;
+  while (i > 0 && j > 0) {
+    for (const joint of JOINTS) {
+      const distance = getJointDistance(performed[i - 1], reference[j - 1], joint);
+      if (distance === null) continue;
+      const sum = totals.get(joint) ?? { total: 0, steps: 0 };
+      totals.set(joint, { total: sum.total + distance, steps: sum.steps + 1 });
+    }
+
+    const diagonal = cost[i - 1][j - 1];
+    const up = cost[i - 1][j];
+    const left = cost[i][j - 1];
+    if (diagonal <= up && diagonal <= left) {
+      i--;
+      j--;
+    } else if (up <= left) {
+      i--;
+    } else {
+      j--;
+    }
+  }
+
+  return new Map([...totals].map(([joint, { total, steps }]) => [joint, total / steps]));
+}
+
+/**
+ * Mean distance over the joints visible in both normalized poses
+ */
+function getPoseDistance(
+  a: JointPositions,
+  b: JointPositions
+): number {
+  const distances = JOINTS.map((joint) => getJointDistance(a, b, joint)).filter(
+    (distance): distance is number => distance !== null
+  );
+  return distances.length > 0 ? distances.reduce((sum, d) => sum + d, 0) / distances.length : 0;
+}
+
+/**
+ * Distance between the same joint in two normalized poses
+ * @returns null when the joint is missing from either pose
+ */
+function getJointDistance(
+  a: JointPositions,
+  b: JointPositions,
+  joint: AvatarJoint
+): number | null {
+  const pointA = a[joint];
+  const pointB = b[joint];
+  if (!pointA || !pointB) return null;
+  return Math.hypot(pointA.x - pointB.x, pointA.y - pointB.y);
+}
+
+/**
+ * Point halfway between two points
+ */
+function midpoint(a: Point2D, b: Point2D): Point2D {
+  return { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+}
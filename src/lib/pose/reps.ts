@@ -0,0 +1,62 @@
+// ============================================
+// Rep Counting
+// ============================================
+
+import type { StrikeEvent, SequenceScore, RepCount } from '../types';
+
+/**
+ * Count training volume for a round: complete combo repetitions and strikes
+ * per move type. A repetition only counts when every strike in it matched.
+ * Strikes are attributed to a move only when the sequence alignment matched
+ * them to that position of the combo.
+ */
+export function countReps(
+  strikes: StrikeEvent[],
+  sequence: SequenceScore,
+  moveIds: string[]
+): RepCount {
+  const strikesByType: RepCount['strikesByType'] = {};
+  for (const strike of strikes) {
+    strikesByType[strike.type] = (strikesByType[strike.type] ?? 0) + 1;
+  }
+
+  const strikesByMove: RepCount['strikesByMove'] = {};
+  moveIds.forEach((id, position) => {
+    const matches = sequence.positionMatches[position] ?? 0;
+    if (matches > 0) {
+      strikesByMove[id] = (strikesByMove[id] ?? 0) + matches;
+    }
+  });
+
+  return {
+    comboReps: sequence.cleanReps,
+    totalStrikes: strikes.length,
+    strikesByType,
+    strikesByMove,
+  };
+}
+
+/**
+ * Add up rep counts from several sessions (e.g. a day of training)
+ */
+export function sumReps(counts: RepCount[]): RepCount {
+  const total: RepCount = {
+    comboReps: 0,
+    totalStrikes: 0,
+    strikesByType: {},
+    strikesByMove: {},
+  };
+
+  for (const count of counts) {
+    total.comboReps += count.comboReps;
+    total.totalStrikes += count.totalStrikes;
+    for (const [type, n] of Object.entries(count.strikesByType) as [keyof RepCount['strikesByType'], number][]) {
+      total.strikesByType[type] = (total.strikesByType[type] ?? 0) + n;
+    }
+    for (const [id, n] of Object.entries(count.strikesByMove)) {
+      total.strikesByMove[id] = (total.strikesByMove[id] ?? 0) + n;
+    }
+  }
+
+  return total;
+}
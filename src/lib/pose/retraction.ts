@@ -0,0 +1,186 @@
+// ============================================
+// Return-to-Guard Latency
+// ============================================
+
+import type {
+  PoseFrame,
+  StrikeEvent,
+  CalibrationData,
+  Limb,
+  ReturnToGuardScore,
+} from '../types';
+import { LANDMARK_INDICES } from './pose';
+import { isGuardUp, getBodyScale, getConfidence, median, MIN_VISIBILITY } from './metrics';
+import type { GuardThresholds } from './metrics';
+import { LIMBS, LIMB_JOINTS, isArm } from './segmentation';
+
+// Search window after peak; a strike still out after this never returned
+const MAX_RETURN_MS = 1500;
+
+// Returns slower than this count as slow
+const SLOW_RETURN_MS: Record<'arm' | 'leg', number> = {
+  arm: 500,
+  leg: 800,
+};
+
+// How close the wrist or ankle must come to its rest position, in shoulder widths
+const RETURN_TOLERANCE: Record<'arm' | 'leg', number> = {
+  arm: 0.3,
+  leg: 0.35,
+};
+
+// Slowest strikes kept for the report
+const WORST_COUNT = 3;
+
+/**
+ * Time from each strike's peak extension until the limb is back: hands in
+ * guard (per isGuardUp) and retracted, feet back at their stance base.
+ * Strikes cut short by another strike of the same limb (doubles) or by the
+ * end of the recording, or with the limb hidden for the whole window, are
+ * skipped.
+ * @param guardThresholds - The rubric's guard thresholds
+ * @returns null when no strike could be measured
+ */
+export function measureReturnToGuard(
+  frames: PoseFrame[],
+  strikes: StrikeEvent[],
+  calibration: CalibrationData | null,
+  guardThresholds: GuardThresholds
+): ReturnToGuardScore | null {
+  if (frames.length === 0 || strikes.length === 0) return null;
+
+  const restOffsets = getRestOffsets(frames, calibration);
+  const latencies: { limb: Limb; time: number; latencyMs: number }[] = [];
+  let slowStrikes = 0;
+
+  strikes.forEach((strike, i) => {
+    const nextSameLimb = strikes.slice(i + 1).find((s) => s.limb === strike.limb);
+    const latency = findReturnLatency(
+      frames,
+      strike,
+      nextSameLimb,
+      restOffsets,
+      calibration,
+      guardThresholds
+    );
+    if (latency === null) return;
+
+    latencies.push({ limb: strike.limb, time: strike.peakTime, latencyMs: latency });
+    if (latency > SLOW_RETURN_MS[isArm(strike.limb) ? 'arm' : 'leg']) slowStrikes++;
+  });
+
+  if (latencies.length === 0) return null;
+
+  const total = latencies.reduce((sum, l) => sum + l.latencyMs, 0);
+  return {
+    strikes: latencies.length,
+    avgMs: Math.round(total / latencies.length),
+    worst: [...latencies].sort((a, b) => b.latencyMs - a.latencyMs).slice(0, WORST_COUNT),
+    slowStrikes,
+  };
+}
+
+/**
+ * Milliseconds from peak until the limb is back, MAX_RETURN_MS if it never
+ * came back, or null when the window was cut short or the limb was never
+ * visible. Frames with the limb hidden are skipped.
+ */
+function findReturnLatency(
+  frames: PoseFrame[],
+  strike: StrikeEvent,
+  nextSameLimb: StrikeEvent | undefined,
+  restOffsets: Partial<Record<Limb, { x: number; y: number }>>,
+  calibration: CalibrationData | null,
+  guardThresholds: GuardThresholds
+): number | null {
+  const rest = restOffsets[strike.limb];
+  if (!rest) return null;
+
+  const deadline = strike.peakTime + MAX_RETURN_MS;
+  const joints = getReturnJoints(strike.limb);
+  let judged = false;
+
+  for (let i = strike.peakIndex + 1; i < frames.length; i++) {
+    const frame = frames[i];
+    if (frame.timestamp > deadline) return judged ? MAX_RETURN_MS : null;
+    if (nextSameLimb && frame.timestamp >= nextSameLimb.startTime) return null;
+
+    if (getConfidence(frame.landmarks, joints) < MIN_VISIBILITY) continue;
+    judged = true;
+    if (isLimbBack(frame, strike.limb, rest, calibration, guardThresholds)) {
+      return frame.timestamp - strike.peakTime;
+    }
+  }
+
+  // Recording ended before the window closed
+  return null;
+}
+
+/**
+ * Landmarks isLimbBack reads: the limb's root and end, plus for arms the
+ * nose and shoulders the guard check measures the hand against
+ */
+function getReturnJoints(limb: Limb): number[] {
+  const { root, end } = LIMB_JOINTS[limb];
+  if (!isArm(limb)) return [root, end];
+  return [end, LANDMARK_INDICES.NOSE, LANDMARK_INDICES.LEFT_SHOULDER, LANDMARK_INDICES.RIGHT_SHOULDER];
+}
+
+/**
+ * Whether a limb is back in its guard/stance position on a frame
+ */
+function isLimbBack(
+  frame: PoseFrame,
+  limb: Limb,
+  rest: { x: number; y: number },
+  calibration: CalibrationData | null,
+  guardThresholds: GuardThresholds
+): boolean {
+  // An extended jab can still sit high enough to pass the guard check
+  if (limb === 'leftArm' || limb === 'rightArm') {
+    const guard = isGuardUp(frame.landmarks, calibration, guardThresholds);
+    if (!(limb === 'leftArm' ? guard.leftUp : guard.rightUp)) return false;
+  }
+
+  const offset = getLimbOffset(frame, limb, calibration);
+  const tolerance = RETURN_TOLERANCE[isArm(limb) ? 'arm' : 'leg'];
+
+  return Math.hypot(offset.x - rest.x, offset.y - rest.y) < tolerance;
+}
+
+/**
+ * End effector offset from the limb's root joint, in shoulder widths
+ */
+function getLimbOffset(
+  frame: PoseFrame,
+  limb: Limb,
+  calibration: CalibrationData | null
+): { x: number; y: number } {
+  const { root, end } = LIMB_JOINTS[limb];
+  const scale = getBodyScale(frame.landmarks, calibration);
+  return {
+    x: (frame.landmarks[end].x - frame.landmarks[root].x) / scale,
+    y: (frame.landmarks[end].y - frame.landmarks[root].y) / scale,
+  };
+}
+
+/**
+ * Rest position of each limb (hands in guard, feet in stance): the median
+ * offset from its root joint over the frames it was visible, since most of
+ * a round is spent in guard. Limbs never visible are missing.
+ */
+function getRestOffsets(
+  frames: PoseFrame[],
+  calibration: CalibrationData | null
+): Partial<Record<Limb, { x: number; y: number }>> {
+  const rest: Partial<Record<Limb, { x: number; y: number }>> = {};
+  for (const limb of LIMBS) {
+    const { root, end } = LIMB_JOINTS[limb];
+    const offsets = frames
+      .filter((frame) => getConfidence(frame.landmarks, [root, end]) >= MIN_VISIBILITY)
+      .map((frame) => getLimbOffset(frame, limb, calibration));
+    if (offsets.length === 0) continue;
+    rest[limb] = { x: median(offsets.map((o) => o.x)), y: median(offsets.map((o) => o.y)) };
+  }
+  return rest;
+}
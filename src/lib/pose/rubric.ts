@@ -0,0 +1,272 @@
+// ============================================
+// Scoring Rubric
+// Declarative thresholds, weights and feedback rules for generateScore
+// ============================================
+
+import type {
+  Combo,
+  ScoringRubric,
+  ScoringProfile,
+  RubricPatch,
+  RubricOverride,
+  RubricCondition,
+  RubricBand,
+  RubricMetric,
+  FeedbackRule,
+} from '../types';
+import defaultRubricJson from './rubrics/default.json';
+
+// Metrics a feedback rule may reference
+const RUBRIC_METRICS: RubricMetric[] = [
+  'guard',
+  'stability',
+  'execution',
+  'timing',
+  'total',
+  'frameCount',
+  'scorableRatio',
+  'framing',
+  'sidewaysWithoutDepth',
+  'sequenceAccuracy',
+  'rotationOnTarget',
+  'minKickQuality',
+  'returnSlowRatio',
+  'headScore',
+  'chinTuckedRatio',
+  'headCenteredRatio',
+  'headLeaningRatio',
+];
+
+const FEEDBACK_KINDS: FeedbackRule['kind'][] = ['strength', 'improvement', 'warning'];
+
+const CONDITION_KEYS: (keyof RubricCondition)[] = ['atLeast', 'above', 'atMost', 'below'];
+
+type JsonObject = Record<string, unknown>;
+
+// Built-in rubric, validated against its own shape; loaded files are
+// layered on top of it
+export const DEFAULT_RUBRIC = loadRubric(defaultRubricJson, defaultRubricJson as ScoringRubric);
+
+/**
+ * Parse a rubric file over a base rubric. The file may be a complete rubric
+ * or only the fields to change; arrays replace the base's arrays.
+ * @throws Error naming the first invalid field
+ */
+export function loadRubric(json: unknown, base: ScoringRubric = DEFAULT_RUBRIC): ScoringRubric {
+  if (!isObject(json)) throw new Error('Invalid scoring rubric: expected an object');
+
+  const { overrides, ...patch } = json;
+  validatePatch(patch, base, 'rubric', '');
+  const rubric = applyPatch(base, patch as RubricPatch);
+
+  if (overrides !== undefined) {
+    if (!Array.isArray(overrides)) throw invalid('rubric.overrides', 'expected an array');
+    rubric.overrides = overrides.map((override, i) =>
+      validateOverride(override, rubric, `rubric.overrides[${i}]`)
+    );
+  }
+
+  return rubric;
+}
+
+/**
+ * Parse a rubric file imported by a coach. Unlike the patches the built-in
+ * rubric is tested with, it must name itself, so every score records which
+ * rubric produced it.
+ * @throws Error naming the first invalid field
+ */
+export function loadImportedRubric(json: unknown): ScoringRubric {
+  const rubric = loadRubric(json);
+  const { id } = json as JsonObject;
+  if (typeof id !== 'string' || id === '' || id === DEFAULT_RUBRIC.id) {
+    throw invalid('rubric.id', `expected a name other than "${DEFAULT_RUBRIC.id}"`);
+  }
+  return rubric;
+}
+
+/**
+ * The rubric for one combo: every override matching its id and level,
+ * applied in order
+ */
+export function resolveRubric(
+  rubric: ScoringRubric,
+  combo?: Pick<Combo, 'id' | 'level'>
+): ScoringRubric {
+  return getMatchingOverrides(rubric, combo).reduce(
+    (resolved, override) => applyPatch(resolved, override.patch),
+    rubric
+  );
+}
+
+/**
+ * Which rubric and overrides a combo is scored with, for storing with the score
+ */
+export function getScoringProfile(
+  rubric: ScoringRubric,
+  combo?: Pick<Combo, 'id' | 'level'>
+): ScoringProfile {
+  return {
+    rubric: rubric.id,
+    overrides: getMatchingOverrides(rubric, combo).map((override) => override.profile),
+  };
+}
+
+/**
+ * Overrides whose filters all match the combo, in rubric order
+ */
+function getMatchingOverrides(
+  rubric: ScoringRubric,
+  combo?: Pick<Combo, 'id' | 'level'>
+): RubricOverride[] {
+  if (!combo) return [];
+
+  return (rubric.overrides ?? []).filter(
+    (override) =>
+      (!override.comboIds || override.comboIds.includes(combo.id)) &&
+      (!override.levels || override.levels.includes(combo.level))
+  );
+}
+
+/**
+ * Whether a value passes every bound of a condition
+ */
+export function meetsCondition(value: number, condition: RubricCondition): boolean {
+  if (condition.atLeast !== undefined && value < condition.atLeast) return false;
+  if (condition.above !== undefined && value <= condition.above) return false;
+  if (condition.atMost !== undefined && value > condition.atMost) return false;
+  if (condition.below !== undefined && value >= condition.below) return false;
+  return true;
+}
+
+/**
+ * Points of the first band the value falls in, or 0
+ */
+export function getBandPoints(value: number, bands: RubricBand[]): number {
+  return bands.find((band) => meetsCondition(value, band))?.points ?? 0;
+}
+
+/**
+ * Deep-merge a patch into a rubric without touching either
+ */
+function applyPatch(base: ScoringRubric, patch: RubricPatch): ScoringRubric {
+  return mergeObjects(base as unknown as JsonObject, patch as JsonObject) as unknown as ScoringRubric;
+}
+
+function mergeObjects(base: JsonObject, patch: JsonObject): JsonObject {
+  const merged: JsonObject = { ...base };
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === undefined) continue;
+    const current = base[key];
+    merged[key] = isObject(current) && isObject(value) ? mergeObjects(current, value) : value;
+  }
+  return merged;
+}
+
+/**
+ * Check a patch against the shape of the rubric it will be merged into
+ * @param path - Where the value sits in the file, for errors
+ * @param field - Where it sits in the rubric (e.g. 'timing.bands'), the
+ *   same for the top level and for an override's patch
+ */
+function validatePatch(value: unknown, reference: unknown, path: string, field: string): void {
+  if (field === 'feedback.rules') {
+    validateArray(value, path, validateRule);
+  } else if (field === 'timing.bands') {
+    validateArray(value, path, validateTimingBand);
+  } else if (field.endsWith('.bands')) {
+    validateArray(value, path, validateBand);
+  } else if (Array.isArray(reference)) {
+    validateArray(value, path, (item, itemPath) => {
+      if (typeof item !== 'string') throw invalid(itemPath, 'expected a string');
+    });
+  } else if (isObject(reference)) {
+    if (!isObject(value)) throw invalid(path, 'expected an object');
+    for (const [key, child] of Object.entries(value)) {
+      if (!(key in reference)) throw invalid(`${path}.${key}`, 'unknown field');
+      validatePatch(child, reference[key], `${path}.${key}`, field ? `${field}.${key}` : key);
+    }
+  } else if (typeof reference === 'number') {
+    if (!isNumber(value)) throw invalid(path, 'expected a number');
+  } else if (typeof value !== typeof reference) {
+    throw invalid(path, `expected a ${typeof reference}`);
+  }
+}
+
+function validateOverride(value: unknown, rubric: ScoringRubric, path: string): RubricOverride {
+  if (!isObject(value)) throw invalid(path, 'expected an object');
+
+  const { profile, comboIds, levels, patch } = value;
+  if (typeof profile !== 'string' || profile === '') {
+    throw invalid(`${path}.profile`, 'expected a name');
+  }
+  if (comboIds !== undefined) {
+    validateArray(comboIds, `${path}.comboIds`, (id, idPath) => {
+      if (typeof id !== 'string') throw invalid(idPath, 'expected a string');
+    });
+  }
+  if (levels !== undefined) {
+    validateArray(levels, `${path}.levels`, (level, levelPath) => {
+      if (level !== 1 && level !== 2 && level !== 3) throw invalid(levelPath, 'expected 1, 2 or 3');
+    });
+  }
+  if (!isObject(patch) || 'overrides' in patch) {
+    throw invalid(`${path}.patch`, 'expected an object without overrides');
+  }
+  validatePatch(patch, rubric, `${path}.patch`, '');
+
+  return value as unknown as RubricOverride;
+}
+
+function validateRule(value: unknown, path: string): void {
+  validateCondition(value, path);
+  const rule = value as JsonObject;
+  if (!RUBRIC_METRICS.includes(rule.metric as RubricMetric)) {
+    throw invalid(`${path}.metric`, `expected one of ${RUBRIC_METRICS.join(', ')}`);
+  }
+  if (!FEEDBACK_KINDS.includes(rule.kind as FeedbackRule['kind'])) {
+    throw invalid(`${path}.kind`, `expected one of ${FEEDBACK_KINDS.join(', ')}`);
+  }
+  if (typeof rule.key !== 'string') throw invalid(`${path}.key`, 'expected a string');
+}
+
+function validateBand(value: unknown, path: string): void {
+  validateCondition(value, path);
+  if (!isNumber((value as JsonObject).points)) throw invalid(`${path}.points`, 'expected a number');
+}
+
+function validateTimingBand(value: unknown, path: string): void {
+  if (!isObject(value)) throw invalid(path, 'expected an object');
+  validateCondition(value.movement, `${path}.movement`);
+  validateCondition(value.variance, `${path}.variance`);
+  if (!isNumber(value.points)) throw invalid(`${path}.points`, 'expected a number');
+}
+
+function validateCondition(value: unknown, path: string): void {
+  if (!isObject(value)) throw invalid(path, 'expected an object');
+  for (const key of CONDITION_KEYS) {
+    if (value[key] !== undefined && !isNumber(value[key])) {
+      throw invalid(`${path}.${key}`, 'expected a number');
+    }
+  }
+}
+
+function validateArray(
+  value: unknown,
+  path: string,
+  validateItem: (item: unknown, itemPath: string) => void
+): void {
+  if (!Array.isArray(value)) throw invalid(path, 'expected an array');
+  value.forEach((item, i) => validateItem(item, `${path}[${i}]`));
+}
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function invalid(path: string, reason: string): Error {
+  return new Error(`Invalid scoring rubric at ${path}: ${reason}`);
+}
@@ -0,0 +1,182 @@
+// ============================================
+// Technique Safety Checks
+// Injury-prone patterns, with the strikes where they happened
+// ============================================
+
+import type {
+  PoseFrame,
+  StrikeEvent,
+  CalibrationData,
+  Move,
+  SafetyIssue,
+  SafetyWarning,
+  NormalizedLandmark,
+  WorldLandmark,
+} from '../types';
+import { LANDMARK_INDICES } from './pose';
+import { getElbowAngle, getBodyScale, getConfidence, MIN_VISIBILITY } from './metrics';
+import { LIMB_JOINTS, isArm } from './segmentation';
+
+// Straight punches where a snapped-straight elbow strains the joint
+const STRAIGHT_PUNCHES = ['jab', 'cross'];
+
+// Elbow angle at peak that counts as locked out (degrees)
+const ELBOW_LOCK_ANGLE = 178;
+
+// Support knee drifting inside the hip-ankle line, in shoulder widths
+const KNEE_CAVE_THRESHOLD = 0.2;
+
+// Head forward of the lead knee, in shoulder widths
+const HEAD_PAST_KNEE_THRESHOLD = 0.3;
+
+// Feet closer than this (shoulder widths) give no reliable forward direction
+const MIN_STANCE_LENGTH = 0.3;
+
+// Occurrences needed before a pattern is reported, so one noisy frame doesn't warn
+const MIN_OCCURRENCES = 2;
+
+// Timestamps kept per warning
+const MAX_TIMES = 10;
+
+interface SafetyContext {
+  calibration: CalibrationData | null;
+  comboMoves: Pick<Move, 'id'>[];
+}
+
+/**
+ * Look for locked elbows on straight punches, a caving support knee on
+ * kicks and knees, and the head leaning past the lead knee on punches.
+ * Each check is skipped on frames where the joints it reads are hidden.
+ */
+export function checkSafety(
+  frames: PoseFrame[],
+  strikes: StrikeEvent[],
+  positions: (number | null)[],
+  context: SafetyContext
+): SafetyWarning[] {
+  const times: Record<SafetyIssue, number[]> = {
+    elbowLock: [],
+    kneeCave: [],
+    headPastKnee: [],
+  };
+  const { calibration } = context;
+  const leadSide = (calibration?.stance ?? 'orthodox') === 'orthodox' ? 'left' : 'right';
+
+  strikes.forEach((strike, i) => {
+    const position = positions[i];
+    const moveId = position !== null ? context.comboMoves[position].id : null;
+    const peak = frames[strike.peakIndex];
+
+    if (isArm(strike.limb)) {
+      const { root, mid, end } = LIMB_JOINTS[strike.limb];
+      const armVisible = getConfidence(peak.landmarks, [root, mid, end]) >= MIN_VISIBILITY;
+      if (moveId && STRAIGHT_PUNCHES.includes(moveId) && armVisible) {
+        const angle = getElbowAngle(peak.landmarks, strike.limb === 'leftArm' ? 'left' : 'right', {
+          worldLandmarks: peak.worldLandmarks,
+          viewAngle: calibration?.viewAngle,
+        });
+        if (angle >= ELBOW_LOCK_ANGLE) times.elbowLock.push(strike.peakTime);
+      }
+
+      const headPastKnee = getHeadPastKnee(peak, leadSide, calibration);
+      if (headPastKnee !== null && headPastKnee >= HEAD_PAST_KNEE_THRESHOLD) {
+        times.headPastKnee.push(strike.peakTime);
+      }
+      return;
+    }
+
+    // Knee cave reads the hip-knee-ankle line across the image, which a side view can't see
+    if (calibration?.viewAngle === 'side') return;
+
+    const supportSide = strike.limb === 'leftLeg' ? 'right' : 'left';
+    for (let f = strike.startIndex; f <= strike.endIndex; f++) {
+      const cave = getKneeCave(frames[f].landmarks, supportSide, calibration);
+      if (cave !== null && cave >= KNEE_CAVE_THRESHOLD) {
+        times.kneeCave.push(strike.peakTime);
+        break;
+      }
+    }
+  });
+
+  return (Object.keys(times) as SafetyIssue[])
+    .filter((issue) => times[issue].length >= MIN_OCCURRENCES)
+    .map((issue) => ({ issue, times: times[issue].slice(0, MAX_TIMES).map(Math.round) }));
+}
+
+/**
+ * How far the knee sits inside the hip-ankle line, toward the other leg,
+ * in shoulder widths (negative = outside)
+ * @returns null when the hips, knee or ankle are hidden
+ */
+function getKneeCave(
+  landmarks: NormalizedLandmark[],
+  side: 'left' | 'right',
+  calibration: CalibrationData | null
+): number | null {
+  const indices = side === 'left'
+    ? [LANDMARK_INDICES.LEFT_HIP, LANDMARK_INDICES.RIGHT_HIP, LANDMARK_INDICES.LEFT_KNEE, LANDMARK_INDICES.LEFT_ANKLE]
+    : [LANDMARK_INDICES.RIGHT_HIP, LANDMARK_INDICES.LEFT_HIP, LANDMARK_INDICES.RIGHT_KNEE, LANDMARK_INDICES.RIGHT_ANKLE];
+  if (getConfidence(landmarks, indices) < MIN_VISIBILITY) return null;
+
+  const [hip, otherHip, knee, ankle] = indices.map((i) => landmarks[i]);
+
+  const span = ankle.y - hip.y;
+  if (span <= 0) return 0;
+
+  // Where the straight hip-ankle line crosses the knee's height
+  const t = (knee.y - hip.y) / span;
+  const lineX = hip.x + (ankle.x - hip.x) * t;
+  const medial = Math.sign(otherHip.x - hip.x);
+
+  return ((knee.x - lineX) * medial) / getBodyScale(landmarks, calibration);
+}
+
+/**
+ * How far the nose is ahead of the lead knee along the stance direction
+ * (rear foot to lead foot), in shoulder widths. Uses world landmarks when
+ * available so a front-facing camera still sees depth.
+ * @returns null when the nose, lead knee or either ankle is hidden
+ */
+function getHeadPastKnee(
+  frame: PoseFrame,
+  leadSide: 'left' | 'right',
+  calibration: CalibrationData | null
+): number | null {
+  const confidence = getConfidence(frame.landmarks, [
+    LANDMARK_INDICES.NOSE,
+    leadSide === 'left' ? LANDMARK_INDICES.LEFT_KNEE : LANDMARK_INDICES.RIGHT_KNEE,
+    LANDMARK_INDICES.LEFT_ANKLE,
+    LANDMARK_INDICES.RIGHT_ANKLE,
+  ]);
+  if (confidence < MIN_VISIBILITY) return null;
+
+  const world = frame.worldLandmarks && frame.worldLandmarks.length === frame.landmarks.length
+    ? frame.worldLandmarks
+    : null;
+  const points: (NormalizedLandmark | WorldLandmark)[] = world ?? frame.landmarks;
+  // World shoulder width is true 3D length, so it holds in any view
+  const scale = world
+    ? Math.hypot(
+        world[LANDMARK_INDICES.LEFT_SHOULDER].x - world[LANDMARK_INDICES.RIGHT_SHOULDER].x,
+        world[LANDMARK_INDICES.LEFT_SHOULDER].y - world[LANDMARK_INDICES.RIGHT_SHOULDER].y,
+        world[LANDMARK_INDICES.LEFT_SHOULDER].z - world[LANDMARK_INDICES.RIGHT_SHOULDER].z
+      )
+    : getBodyScale(frame.landmarks, calibration);
+  if (scale <= 0) return 0;
+
+  const leadAnkle = points[leadSide === 'left' ? LANDMARK_INDICES.LEFT_ANKLE : LANDMARK_INDICES.RIGHT_ANKLE];
+  const rearAnkle = points[leadSide === 'left' ? LANDMARK_INDICES.RIGHT_ANKLE : LANDMARK_INDICES.LEFT_ANKLE];
+  const leadKnee = points[leadSide === 'left' ? LANDMARK_INDICES.LEFT_KNEE : LANDMARK_INDICES.RIGHT_KNEE];
+  const nose = points[LANDMARK_INDICES.NOSE];
+
+  // Stance direction in the ground (x-z) plane
+  const dx = leadAnkle.x - rearAnkle.x;
+  const dz = leadAnkle.z - rearAnkle.z;
+  const length = Math.hypot(dx, dz);
+  if (length / scale < MIN_STANCE_LENGTH) return 0;
+
+  const along = (p: NormalizedLandmark | WorldLandmark) =>
+    ((p.x - rearAnkle.x) * dx + (p.z - rearAnkle.z) * dz) / length;
+
+  return (along(nose) - along(leadKnee)) / scale;
+}
@@ -7,6 +7,16 @@ import type {
   SessionScore,
   CalibrationData,
   AnalysisResult,
+  Move,
+  SequenceScore,
+  StrikeEvent,
+  ReturnToGuardScore,
+  MoveScore,
+  FatigueScore,
+  HeadScore,
+  Combo,
+  ScoringRubric,
+  RubricMetric,
 } from '../types';
 import {
   isGuardUp,
@@ -15,11 +25,43 @@ import {
   detectKneeLift,
   checkFramingQuality,
   estimateViewAngle,
+  getPeakRotation,
+  isFrameScorable,
+  getScorableRatio,
+  MIN_VISIBILITY,
 } from './metrics';
+import { segmentStrikes, isArm } from './segmentation';
+import { alignComboSequence } from './sequence';
+import { countReps } from './reps';
+import { scoreMoves } from './moveBreakdown';
+import { measureReturnToGuard } from './retraction';
+import { analyzeFatigue } from './fatigue';
+import { checkSafety } from './safety';
+import { measureHeadPosition } from './head';
+import {
+  DEFAULT_RUBRIC,
+  resolveRubric,
+  getScoringProfile,
+  meetsCondition,
+  getBandPoints,
+} from './rubric';
+
+// Bump whenever the algorithm or the built-in rubric changes, so stored
+// scores from an older algorithm can be detected and re-scored
+export const SCORING_VERSION = 23;
+
+// How the power strikes of a round rotated
+interface RotationCheck {
+  strikes: number; // strikes measured
+  onTarget: number; // strikes that reached the target hip rotation
+}
 
 interface ScoringContext {
   calibration: CalibrationData | null;
   comboMoveTypes: string[]; // punch, kick, knee, elbow
+  comboMoves: Pick<Move, 'id' | 'type' | 'side' | 'keyframes'>[]; // in Combo.moveIds order
+  combo?: Pick<Combo, 'id' | 'level'>; // selects rubric overrides
+  rubric?: ScoringRubric; // defaults to the built-in rubric
 }
 
 /**
@@ -30,15 +72,59 @@ export function generateScore(
   context: ScoringContext
 ): AnalysisResult {
   const duration = frames.length > 0 ? frames[frames.length - 1].timestamp : 0;
+  const baseRubric = context.rubric ?? DEFAULT_RUBRIC;
+  const rubric = resolveRubric(baseRubric, context.combo);
 
   // Extract landmarks arrays
   const landmarksArray = frames.map((f) => f.landmarks);
+  const scorableRatio = getScorableRatio(frames);
+
+  // Split the timeline into discrete strikes
+  const strikes = segmentStrikes(frames);
+  const { score: sequence, positions } = alignComboSequence(
+    strikes,
+    context.comboMoves,
+    context.calibration?.stance ?? 'orthodox'
+  );
+  const reps = countReps(
+    strikes,
+    sequence,
+    context.comboMoves.map((m) => m.id)
+  );
+  const moves = scoreMoves(
+    frames,
+    strikes,
+    positions,
+    context.comboMoves,
+    context.calibration,
+    rubric
+  );
+
+  const rotation = checkStrikeRotation(
+    frames,
+    strikes,
+    positions,
+    context,
+    rubric
+  );
+  const returnToGuard = measureReturnToGuard(frames, strikes, context.calibration, rubric.guard);
+  const fatigue = analyzeFatigue(frames, strikes, context.calibration, rubric.guard);
+  const safety = checkSafety(frames, strikes, positions, context);
+  const head = measureHeadPosition(frames, strikes, context.calibration);
 
   // Calculate subscores
-  const guardScore = calculateGuardScore(landmarksArray, context.calibration);
-  const stabilityScore = calculateStabilityScore(landmarksArray);
-  const executionScore = calculateExecutionScore(landmarksArray, context.comboMoveTypes);
-  const timingScore = calculateTimingScore(landmarksArray, frames);
+  const guardScore = calculateGuardScore(landmarksArray, context.calibration, head, rubric);
+  const stabilityScore = calculateStabilityScore(landmarksArray, context.calibration, rubric);
+  const executionScore = calculateExecutionScore(
+    frames,
+    context.comboMoveTypes,
+    sequence,
+    context.calibration,
+    rotation,
+    moves,
+    rubric
+  );
+  const timingScore = calculateTimingScore(landmarksArray, frames, rubric);
 
   // Calculate overall score (weighted sum)
   const overall = Math.round(
@@ -54,7 +140,15 @@ export function generateScore(
       timing: timingScore,
     },
     frames,
-    context
+    context,
+    sequence,
+    rotation,
+    returnToGuard,
+    moves,
+    fatigue,
+    head,
+    scorableRatio,
+    rubric
   );
 
   return {
@@ -69,126 +163,219 @@ export function generateScore(
       strengths,
       improvements,
       warnings,
+      sequence,
+      moves,
+      version: SCORING_VERSION,
+      returnToGuard: returnToGuard ?? undefined,
+      fatigue: fatigue ?? undefined,
+      safety,
+      head: head ?? undefined,
+      profile: getScoringProfile(baseRubric, context.combo),
+      scorableRatio: Math.round(scorableRatio * 100) / 100,
     },
     frames,
+    strikes,
+    reps,
   };
 }
 
 /**
- * Calculate guard score (0-25)
+ * Calculate guard score (0 to the rubric cap) from the hands, and the head when measured.
+ * Samples are weighted by how clearly the wrists were seen; hidden ones are skipped.
  */
 function calculateGuardScore(
   landmarksArray: PoseFrame['landmarks'][],
-  calibration: CalibrationData | null
+  calibration: CalibrationData | null,
+  head: HeadScore | null,
+  rubric: ScoringRubric
 ): number {
-  if (landmarksArray.length === 0) return 0;
+  const { max, fallback } = rubric.subscores.guard;
+  if (landmarksArray.length === 0) return fallback;
 
   // Sample frames throughout the video
-  const sampleCount = Math.min(20, landmarksArray.length);
+  const sampleCount = Math.min(rubric.guard.sampleCount, landmarksArray.length);
   const step = Math.floor(landmarksArray.length / sampleCount);
 
   let totalScore = 0;
-  let samples = 0;
+  let totalWeight = 0;
 
   for (let i = 0; i < landmarksArray.length; i += step) {
-    const result = isGuardUp(landmarksArray[i], calibration);
-    totalScore += result.score;
-    samples++;
+    const result = isGuardUp(landmarksArray[i], calibration, rubric.guard);
+    if (result.confidence < MIN_VISIBILITY) continue;
+    totalScore += result.score * result.confidence;
+    totalWeight += result.confidence;
   }
+  if (totalWeight === 0) return fallback;
+
+  const hands = totalScore / totalWeight;
+  const { headWeight } = rubric.guard;
+  const combined = head ? hands * (1 - headWeight) + head.score * headWeight : hands;
 
-  // Scale to 0-25
-  return (totalScore / samples / 100) * 25;
+  // Scale to the cap
+  return (combined / 100) * max;
 }
 
 /**
- * Calculate stability score (0-20)
+ * Calculate stability score (0 to the rubric cap)
  */
 function calculateStabilityScore(
-  landmarksArray: PoseFrame['landmarks'][]
+  landmarksArray: PoseFrame['landmarks'][],
+  calibration: CalibrationData | null,
+  rubric: ScoringRubric
 ): number {
-  if (landmarksArray.length < 5) return 10; // Default middle score
+  const { max, fallback } = rubric.subscores.stability;
+  if (landmarksArray.length < rubric.minFrames) return fallback;
 
-  const stability = calculateStability(landmarksArray);
-  // Scale to 0-20
-  return (stability / 100) * 20;
+  const stability = calculateStability(landmarksArray, calibration);
+  // Scale to the cap
+  return (stability / 100) * max;
 }
 
 /**
- * Calculate execution score based on move types (0-40)
+ * Calculate execution score based on move types (0 to the rubric cap).
+ * Extension and knee lift shares only count frames where the body was visible.
  */
 function calculateExecutionScore(
-  landmarksArray: PoseFrame['landmarks'][],
-  moveTypes: string[]
+  frames: PoseFrame[],
+  moveTypes: string[],
+  sequence: SequenceScore,
+  calibration: CalibrationData | null,
+  rotation: RotationCheck | null,
+  moves: MoveScore[],
+  rubric: ScoringRubric
 ): number {
-  if (landmarksArray.length < 5) return 20; // Default middle score
+  const { max, fallback } = rubric.subscores.execution;
+  if (frames.length < rubric.minFrames) return fallback;
+
+  const { checkPoints, noChecksScore, punchExtension, kneeLift } = rubric.execution;
+  const viewAngle = calibration?.viewAngle;
+  const scorable = frames.filter((f) => isFrameScorable(f.landmarks));
 
   let score = 0;
   let checks = 0;
 
   // Check for punch extensions if punches are in combo
-  if (moveTypes.includes('punch')) {
+  if (moveTypes.includes('punch') && scorable.length > 0) {
     let punchExtensions = 0;
-    for (const landmarks of landmarksArray) {
-      const leftExt = detectPunchExtension(landmarks, 'left');
-      const rightExt = detectPunchExtension(landmarks, 'right');
+    for (const { landmarks, worldLandmarks } of scorable) {
+      const options = { worldLandmarks, viewAngle };
+      const leftExt = detectPunchExtension(landmarks, 'left', options, punchExtension.minAngle);
+      const rightExt = detectPunchExtension(landmarks, 'right', options, punchExtension.minAngle);
       if (leftExt.isExtended || rightExt.isExtended) {
         punchExtensions++;
       }
     }
     // Good if we see some extensions (not too few, not constant)
-    const extensionRatio = punchExtensions / landmarksArray.length;
-    if (extensionRatio > 0.1 && extensionRatio < 0.5) {
-      score += 20;
-    } else if (extensionRatio > 0.05) {
-      score += 10;
-    }
+    score += getBandPoints(punchExtensions / scorable.length, punchExtension.bands);
+    checks++;
+  }
+
+  // Judge each matched move with its technique checker
+  const checked = moves.filter((move) => move.technique);
+  if (checked.length > 0) {
+    const quality =
+      checked.reduce((sum, move) => sum + (move.technique?.score ?? 0), 0) / checked.length;
+    score += (quality / 100) * checkPoints;
     checks++;
   }
 
-  // Check for knee lifts if kicks/knees in combo
-  if (moveTypes.includes('kick') || moveTypes.includes('knee')) {
+  // Fall back to counting knee lifts when no leg strike was matched
+  if (
+    !moves.some((move) => move.kick) &&
+    (moveTypes.includes('kick') || moveTypes.includes('knee')) &&
+    scorable.length > 0
+  ) {
     let kneeLiftCount = 0;
-    for (const landmarks of landmarksArray) {
+    for (const { landmarks } of scorable) {
       const leftLift = detectKneeLift(landmarks, 'left');
       const rightLift = detectKneeLift(landmarks, 'right');
       if (leftLift.isLifted || rightLift.isLifted) {
         kneeLiftCount++;
       }
     }
-    const liftRatio = kneeLiftCount / landmarksArray.length;
-    if (liftRatio > 0.05 && liftRatio < 0.4) {
-      score += 20;
-    } else if (liftRatio > 0.02) {
-      score += 10;
-    }
+    score += getBandPoints(kneeLiftCount / scorable.length, kneeLift.bands);
+    checks++;
+  }
+
+  // Check that strikes follow the combo order
+  if (sequence.attemptedReps > 0 || sequence.extraStrikes > 0) {
+    score += sequence.accuracy * checkPoints;
+    checks++;
+  }
+
+  // Check that power strikes turn the hips
+  if (rotation) {
+    score += (rotation.onTarget / rotation.strikes) * checkPoints;
     checks++;
   }
 
   // Default score if no specific checks
   if (checks === 0) {
-    return 25; // Middle score
+    return noChecksScore;
   }
 
-  // Scale to 0-40
-  return Math.min(40, (score / (checks * 20)) * 40);
+  // Scale to the cap
+  return Math.min(max, (score / (checks * checkPoints)) * max);
 }
 
 /**
- * Calculate timing/flow score (0-15)
+ * Measure peak hip rotation for each rear-side strike, and for strikes
+ * matched to a rotation move (e.g. the lead hook). Strikes with the torso
+ * hidden are skipped.
+ * @returns null when the combo has no rotation moves or none were measured
+ */
+function checkStrikeRotation(
+  frames: PoseFrame[],
+  strikes: StrikeEvent[],
+  positions: (number | null)[],
+  context: ScoringContext,
+  rubric: ScoringRubric
+): RotationCheck | null {
+  const { moves: rotationMoves, punchTarget, kickTarget } = rubric.execution.rotation;
+  if (!context.comboMoves.some((move) => rotationMoves.includes(move.id))) return null;
+
+  // Orthodox fighters throw power strikes from the right side, southpaws from the left
+  const rearSide = (context.calibration?.stance ?? 'orthodox') === 'orthodox' ? 'right' : 'left';
+
+  let measured = 0;
+  let onTarget = 0;
+
+  strikes.forEach((strike, i) => {
+    const position = positions[i];
+    const isRotationMove =
+      position !== null && rotationMoves.includes(context.comboMoves[position].id);
+    if (!strike.limb.startsWith(rearSide) && !isRotationMove) return;
+
+    const rotation = getPeakRotation(frames, strike.startIndex, strike.endIndex);
+    if (!rotation) return;
+    const target = isArm(strike.limb) ? punchTarget : kickTarget;
+
+    measured++;
+    if (rotation.hip >= target) onTarget++;
+  });
+
+  return measured > 0 ? { strikes: measured, onTarget } : null;
+}
+
+/**
+ * Calculate timing/flow score (0 to the rubric cap) from the movement
+ * between consecutive frames where the body was visible
  */
 function calculateTimingScore(
   landmarksArray: PoseFrame['landmarks'][],
-  frames: PoseFrame[]
+  frames: PoseFrame[],
+  rubric: ScoringRubric
 ): number {
-  if (frames.length < 5) return 8; // Default middle score
+  const { max, fallback } = rubric.subscores.timing;
+  if (frames.length < rubric.minFrames) return fallback;
 
   // Analyze rhythm consistency
   // Look for consistent motion patterns
-  let rhythmScore = 0;
 
   // Calculate frame-to-frame movement
   const movements: number[] = [];
   for (let i = 1; i < landmarksArray.length; i++) {
+    if (!isFrameScorable(landmarksArray[i]) || !isFrameScorable(landmarksArray[i - 1])) continue;
     let totalMovement = 0;
     for (let j = 0; j < landmarksArray[i].length; j++) {
       const dx = landmarksArray[i][j].x - landmarksArray[i - 1][j].x;
@@ -197,6 +384,7 @@ function calculateTimingScore(
     }
     movements.push(totalMovement);
   }
+  if (movements.length === 0) return fallback;
 
   // Good timing = movement variance is not too high (controlled)
   // but also not too low (showing activity)
@@ -206,19 +394,16 @@ function calculateTimingScore(
     movements.length;
 
   // Good if there's moderate, consistent movement
-  if (avgMovement > 0.01 && avgMovement < 0.2 && variance < 0.01) {
-    rhythmScore = 15;
-  } else if (avgMovement > 0.005 && variance < 0.02) {
-    rhythmScore = 10;
-  } else {
-    rhythmScore = 5;
-  }
+  const band = rubric.timing.bands.find(
+    (b) => meetsCondition(avgMovement, b.movement) && meetsCondition(variance, b.variance)
+  );
+  const rhythmScore = band ? band.points : rubric.timing.defaultPoints;
 
-  return rhythmScore;
+  return Math.min(max, rhythmScore);
 }
 
 /**
- * Generate feedback based on scores
+ * Generate feedback by running the rubric's rules over the round's metrics
  */
 function generateFeedback(
   scores: {
@@ -228,79 +413,96 @@ function generateFeedback(
     timing: number;
   },
   frames: PoseFrame[],
-  context: ScoringContext
+  context: ScoringContext,
+  sequence: SequenceScore,
+  rotation: RotationCheck | null,
+  returnToGuard: ReturnToGuardScore | null,
+  moves: MoveScore[],
+  fatigue: FatigueScore | null,
+  head: HeadScore | null,
+  scorableRatio: number,
+  rubric: ScoringRubric
 ): {
   strengths: string[];
   improvements: string[];
   warnings: string[];
 } {
-  const strengths: string[] = [];
-  const improvements: string[] = [];
-  const warnings: string[] = [];
-
-  // Guard feedback
-  if (scores.guard >= 20) {
-    strengths.push('feedback.strengths.goodGuard');
-  } else if (scores.guard < 15) {
-    improvements.push('feedback.improvements.raiseGuard');
-  }
+  const { feedback } = rubric;
+  const kicks = moves.filter((move) => move.kick);
 
-  // Stability feedback
-  if (scores.stability >= 16) {
-    strengths.push('feedback.strengths.stableBase');
-  } else if (scores.stability < 10) {
-    improvements.push('feedback.improvements.stayBalanced');
-  }
+  // Side-on views only limit accuracy without 3D landmarks to correct the angles
+  const hasWorldLandmarks = frames.length > 0 && frames.every((f) => f.worldLandmarks);
+  const sidewaysWithoutDepth = context.calibration?.viewAngle === 'side' && !hasWorldLandmarks;
 
-  // Execution feedback
-  if (scores.execution >= 32) {
-    strengths.push('feedback.strengths.goodExtension');
-  } else if (scores.execution < 20) {
-    improvements.push('feedback.improvements.extendMore');
+  // Metrics left out weren't measured this round, and their rules are skipped
+  const metrics: Partial<Record<RubricMetric, number>> = {
+    ...scores,
+    total: scores.guard + scores.stability + scores.execution + scores.timing,
+    frameCount: frames.length,
+    sidewaysWithoutDepth: sidewaysWithoutDepth ? 1 : 0,
+  };
+  if (frames.length > 0) {
+    metrics.framing = checkFramingQuality(frames[frames.length - 1].landmarks).overallScore;
+    metrics.scorableRatio = scorableRatio;
   }
-
-  // Timing feedback
-  if (scores.timing >= 12) {
-    strengths.push('feedback.strengths.goodTiming');
-  } else if (scores.timing < 8) {
-    improvements.push('feedback.improvements.improveFlow');
+  if (sequence.attemptedReps > 0) {
+    metrics.sequenceAccuracy = sequence.accuracy;
   }
-
-  // Add general good form if overall is high
-  if (scores.guard + scores.stability + scores.execution + scores.timing > 70) {
-    strengths.push('feedback.strengths.goodForm');
+  if (rotation) {
+    metrics.rotationOnTarget = rotation.onTarget / rotation.strikes;
+  }
+  if (kicks.length > 0) {
+    metrics.minKickQuality = Math.min(...kicks.map((move) => move.kick?.quality ?? 0));
+  }
+  if (returnToGuard && returnToGuard.strikes >= feedback.minReturnSamples) {
+    metrics.returnSlowRatio = returnToGuard.slowStrikes / returnToGuard.strikes;
   }
+  if (head) {
+    metrics.headScore = head.score;
+    metrics.chinTuckedRatio = head.chinTuckedRatio;
+    if (head.centeredRatio !== null) metrics.headCenteredRatio = head.centeredRatio;
+    if (head.leaningRatio !== null) metrics.headLeaningRatio = head.leaningRatio;
+  }
+
+  const lists = {
+    strength: [] as string[],
+    improvement: [] as string[],
+    warning: [] as string[],
+  };
+  const add = (kind: keyof typeof lists, key: string) => {
+    if (!lists[kind].includes(key)) lists[kind].push(key);
+  };
 
-  // Check for warnings
-  if (frames.length < 50) {
-    warnings.push('feedback.warnings.lowFrameCount');
+  for (const rule of feedback.rules) {
+    const value = metrics[rule.metric];
+    if (value !== undefined && meetsCondition(value, rule)) add(rule.kind, rule.key);
   }
 
-  // Check framing quality from last frame
-  if (frames.length > 0) {
-    const framing = checkFramingQuality(frames[frames.length - 1].landmarks);
-    if (framing.overallScore < 60) {
-      warnings.push('feedback.warnings.poorFraming');
+  // Technique faults seen on most of a move's strikes
+  for (const move of moves) {
+    for (const key of move.technique?.feedback ?? []) {
+      add('improvement', key);
     }
   }
 
-  // Check view angle
-  if (context.calibration?.viewAngle === 'side') {
-    warnings.push('feedback.warnings.sidewaysView');
+  // Fatigue: name the minute where a metric fell off
+  for (const drop of fatigue?.drops ?? []) {
+    const minute = Math.min(feedback.maxFatigueMinute, Math.floor(drop.from / 60000));
+    add(
+      'improvement',
+      feedback.fatigueKey.replace('{metric}', drop.metric).replace('{minute}', String(minute))
+    );
   }
 
   // Ensure we have at least some feedback
-  if (strengths.length === 0) {
-    strengths.push('feedback.strengths.goodForm');
-  }
-  if (improvements.length === 0 && scores.guard + scores.stability + scores.execution + scores.timing < 80) {
-    improvements.push('feedback.improvements.returnFaster');
+  if (lists.strength.length === 0) {
+    add('strength', feedback.fallbackStrength);
   }
 
   return {
-    strengths: strengths.slice(0, 3),
-    improvements: improvements.slice(0, 3),
-    warnings: warnings.slice(0, 3),
+    strengths: lists.strength.slice(0, feedback.maxPerKind),
+    improvements: lists.improvement.slice(0, feedback.maxPerKind),
+    warnings: lists.warning.slice(0, feedback.maxPerKind),
   };
 }
 
@@ -0,0 +1,195 @@
+// ============================================
+// Strike Event Segmentation
+// ============================================
+
+import type {
+  PoseFrame,
+  NormalizedLandmark,
+  StrikeEvent,
+  Limb,
+  MoveType,
+} from '../types';
+import { LANDMARK_INDICES } from './pose';
+import { calculateAngle, getShoulderWidth, getConfidence, median, MIN_VISIBILITY } from './metrics';
+
+// Displacement from rest (in shoulder widths) at which a limb counts as striking
+const ONSET_THRESHOLD = 0.6;
+// Displacement below which the limb is considered back at rest
+const RELEASE_THRESHOLD = 0.35;
+// Shorter segments are treated as tracking noise (ms)
+const MIN_STRIKE_DURATION = 80;
+// Segments of the same limb closer than this are merged into one strike (ms)
+const MERGE_GAP = 120;
+
+export const LIMBS: Limb[] = ['leftArm', 'rightArm', 'leftLeg', 'rightLeg'];
+
+// Landmarks that make up each limb: root joint, middle joint, end effector
+export const LIMB_JOINTS: Record<Limb, { root: number; mid: number; end: number }> = {
+  leftArm: {
+    root: LANDMARK_INDICES.LEFT_SHOULDER,
+    mid: LANDMARK_INDICES.LEFT_ELBOW,
+    end: LANDMARK_INDICES.LEFT_WRIST,
+  },
+  rightArm: {
+    root: LANDMARK_INDICES.RIGHT_SHOULDER,
+    mid: LANDMARK_INDICES.RIGHT_ELBOW,
+    end: LANDMARK_INDICES.RIGHT_WRIST,
+  },
+  leftLeg: {
+    root: LANDMARK_INDICES.LEFT_HIP,
+    mid: LANDMARK_INDICES.LEFT_KNEE,
+    end: LANDMARK_INDICES.LEFT_ANKLE,
+  },
+  rightLeg: {
+    root: LANDMARK_INDICES.RIGHT_HIP,
+    mid: LANDMARK_INDICES.RIGHT_KNEE,
+    end: LANDMARK_INDICES.RIGHT_ANKLE,
+  },
+};
+
+/**
+ * Check whether a limb is an arm
+ */
+export function isArm(limb: Limb): boolean {
+  return limb === 'leftArm' || limb === 'rightArm';
+}
+
+/**
+ * Segment a pose timeline into discrete strike events, sorted by peak time
+ */
+export function segmentStrikes(frames: PoseFrame[]): StrikeEvent[] {
+  if (frames.length < 3) return [];
+
+  const scale = median(frames.map((f) => getShoulderWidth(f.landmarks)));
+  if (!scale) return [];
+
+  const strikes: StrikeEvent[] = [];
+  for (const limb of LIMBS) {
+    const signal = getLimbActivation(frames, limb, scale);
+    for (const segment of findSegments(frames, signal)) {
+      strikes.push({
+        limb,
+        type: classifyStrike(frames[segment.peakIndex].landmarks, limb),
+        startTime: frames[segment.startIndex].timestamp,
+        peakTime: frames[segment.peakIndex].timestamp,
+        endTime: frames[segment.endIndex].timestamp,
+        ...segment,
+        peakIntensity: signal[segment.peakIndex],
+      });
+    }
+  }
+
+  // Arms swing for balance during kicks; those are not strikes of their own
+  const legStrikes = strikes.filter((s) => !isArm(s.limb));
+  const filtered = strikes.filter(
+    (s) =>
+      !isArm(s.limb) ||
+      !legStrikes.some((k) => s.peakTime >= k.startTime && s.peakTime <= k.endTime)
+  );
+
+  return filtered.sort((a, b) => a.peakTime - b.peakTime);
+}
+
+/**
+ * Per-frame displacement of a limb from its rest position, in shoulder widths.
+ * The rest position is the median offset from the root joint, since most of a
+ * round is spent in guard. Frames where the limb is hidden count as at rest.
+ */
+function getLimbActivation(
+  frames: PoseFrame[],
+  limb: Limb,
+  scale: number
+): number[] {
+  const joints = LIMB_JOINTS[limb];
+  // Legs also track the knee so that knee strikes register without a foot swing
+  const tracked = isArm(limb) ? [joints.end] : [joints.end, joints.mid];
+
+  const displacements = tracked.map((idx) => {
+    const offsets = frames.map((f) => ({
+      x: f.landmarks[idx].x - f.landmarks[joints.root].x,
+      y: f.landmarks[idx].y - f.landmarks[joints.root].y,
+      visible: getConfidence(f.landmarks, [idx, joints.root]) >= MIN_VISIBILITY,
+    }));
+    const seen = offsets.filter((o) => o.visible);
+    const restX = median(seen.map((o) => o.x));
+    const restY = median(seen.map((o) => o.y));
+    return offsets.map((o) =>
+      o.visible ? Math.sqrt(Math.pow(o.x - restX, 2) + Math.pow(o.y - restY, 2)) / scale : 0
+    );
+  });
+
+  return frames.map((_, i) => Math.max(...displacements.map((d) => d[i])));
+}
+
+/**
+ * Find strike segments in an activation signal using hysteresis thresholds
+ */
+function findSegments(
+  frames: PoseFrame[],
+  signal: number[]
+): { startIndex: number; peakIndex: number; endIndex: number }[] {
+  const segments: { startIndex: number; peakIndex: number; endIndex: number }[] = [];
+  let current: { startIndex: number; peakIndex: number; endIndex: number } | null = null;
+
+  for (let i = 0; i < signal.length; i++) {
+    if (!current) {
+      if (signal[i] >= ONSET_THRESHOLD) {
+        // Walk back to where the limb left its rest position
+        let start = i;
+        while (start > 0 && signal[start - 1] > RELEASE_THRESHOLD) start--;
+        current = { startIndex: start, peakIndex: i, endIndex: i };
+      }
+      continue;
+    }
+
+    if (signal[i] > signal[current.peakIndex]) {
+      current.peakIndex = i;
+    }
+    current.endIndex = i;
+
+    if (signal[i] <= RELEASE_THRESHOLD) {
+      segments.push(current);
+      current = null;
+    }
+  }
+  if (current) segments.push(current);
+
+  // Merge segments separated by a short dip, then drop noise
+  const merged: typeof segments = [];
+  for (const segment of segments) {
+    const last = merged[merged.length - 1];
+    if (
+      last &&
+      frames[segment.startIndex].timestamp - frames[last.endIndex].timestamp < MERGE_GAP
+    ) {
+      last.endIndex = segment.endIndex;
+      if (signal[segment.peakIndex] > signal[last.peakIndex]) {
+        last.peakIndex = segment.peakIndex;
+      }
+    } else {
+      merged.push({ ...segment });
+    }
+  }
+
+  return merged.filter(
+    (s) => frames[s.endIndex].timestamp - frames[s.startIndex].timestamp >= MIN_STRIKE_DURATION
+  );
+}
+
+/**
+ * Guess the move type from the limb shape at peak extension
+ */
+function classifyStrike(landmarks: NormalizedLandmark[], limb: Limb): MoveType {
+  const joints = LIMB_JOINTS[limb];
+  const root = landmarks[joints.root];
+  const mid = landmarks[joints.mid];
+  const angle = calculateAngle(root, mid, landmarks[joints.end]);
+
+  if (isArm(limb)) {
+    // Tightly folded arm with the elbow raised to shoulder height
+    return angle < 60 && mid.y < root.y ? 'elbow' : 'punch';
+  }
+
+  // Folded leg with the knee driven above the hip
+  return angle < 100 && mid.y < root.y ? 'knee' : 'kick';
+}
@@ -0,0 +1,255 @@
+// ============================================
+// Combo Sequence Alignment
+// ============================================
+
+import type {
+  Move,
+  Limb,
+  Stance,
+  StrikeEvent,
+  SequenceScore,
+  FrameRange,
+} from '../types';
+
+interface ExpectedStrike {
+  limb: Limb;
+  type: Move['type'];
+}
+
+// Outcome for a single expected strike after alignment
+type AlignmentOp = 'match' | 'wrong' | 'missed';
+
+export interface SequenceAlignment {
+  score: SequenceScore;
+  // Combo.moveIds index each strike was correctly matched to, null otherwise
+  positions: (number | null)[];
+}
+
+/**
+ * Map a move's lead/rear side to the physical limb for the given stance
+ */
+export function getMoveLimb(move: Pick<Move, 'type' | 'side'>, stance: Stance): Limb {
+  // Orthodox fighters lead with the left side, southpaws with the right
+  const isLeft = (move.side === 'lead') === (stance === 'orthodox');
+  const isLegMove = move.type === 'kick' || move.type === 'knee';
+
+  if (isLegMove) return isLeft ? 'leftLeg' : 'rightLeg';
+  return isLeft ? 'leftArm' : 'rightArm';
+}
+
+/**
+ * Align detected strikes against the repeated combo and count clean repetitions.
+ * Uses an edit-distance alignment so missed or extra strikes only cost the
+ * repetition they happen in instead of shifting every later one.
+ */
+export function alignComboSequence(
+  strikes: StrikeEvent[],
+  moves: Pick<Move, 'type' | 'side'>[],
+  stance: Stance
+): SequenceAlignment {
+  // Defensive moves do not produce strikes, so they can't be checked here
+  const pattern: (ExpectedStrike | null)[] = moves.map((move) =>
+    move.type === 'defensive'
+      ? null
+      : { limb: getMoveLimb(move, stance), type: move.type }
+  );
+  const checked = pattern.filter((p): p is ExpectedStrike => p !== null);
+
+  const empty: SequenceScore = {
+    attemptedReps: 0,
+    cleanReps: 0,
+    accuracy: 0,
+    positionErrors: pattern.map(() => 0),
+    positionMatches: pattern.map(() => 0),
+    weakestPosition: null,
+    extraStrikes: strikes.length,
+  };
+  if (checked.length === 0 || strikes.length === 0) {
+    return { score: empty, positions: strikes.map(() => null) };
+  }
+
+  // Expand the pattern to cover every strike, plus one spare repetition
+  const reps = Math.ceil(strikes.length / checked.length) + 1;
+  const expanded: { expected: ExpectedStrike; position: number; rep: number }[] = [];
+  for (let rep = 0; rep < reps; rep++) {
+    pattern.forEach((expected, position) => {
+      if (expected) expanded.push({ expected, position, rep });
+    });
+  }
+
+  const { ops, strikeIndices, extraStrikes } = align(
+    strikes,
+    expanded.map((e) => e.expected)
+  );
+
+  const positions: (number | null)[] = strikes.map(() => null);
+  ops.forEach((op, i) => {
+    if (op === 'match') positions[strikeIndices[i]] = expanded[i].position;
+  });
+
+  // Entries after the last performed strike were never reached (round ended)
+  let lastReached = -1;
+  ops.forEach((op, i) => {
+    if (op !== 'missed') lastReached = i;
+  });
+
+  const positionErrors = pattern.map(() => 0);
+  const positionMatches = pattern.map(() => 0);
+  let attemptedReps = 0;
+  let cleanReps = 0;
+  let matched = 0;
+  let reached = 0;
+  let repClean = true;
+
+  for (let i = 0; i <= lastReached; i++) {
+    const { position, rep } = expanded[i];
+    reached++;
+    if (ops[i] === 'match') {
+      matched++;
+      positionMatches[position]++;
+    } else {
+      repClean = false;
+      positionErrors[position]++;
+    }
+
+    // A repetition counts once its last expected strike has been reached
+    const isRepEnd = i + 1 === expanded.length || expanded[i + 1].rep !== rep;
+    if (isRepEnd) {
+      attemptedReps++;
+      if (repClean) cleanReps++;
+      repClean = true;
+    }
+  }
+
+  const maxErrors = Math.max(...positionErrors);
+
+  return {
+    score: {
+      attemptedReps,
+      cleanReps,
+      accuracy: reached > 0 ? matched / reached : 0,
+      positionErrors,
+      positionMatches,
+      weakestPosition: maxErrors > 0 ? positionErrors.indexOf(maxErrors) : null,
+      extraStrikes,
+    },
+    positions,
+  };
+}
+
+/**
+ * Frames where each defensive move of the combo should have happened: the gap
+ * between the matched strikes around it, split evenly when several defensive
+ * moves share a gap. Gaps that also skip a strike, or hold an unmatched one,
+ * are left out since the defence can't be placed in them.
+ * @returns per Combo.moveIds index, empty for strike moves
+ */
+export function getDefensiveSlots(
+  strikes: StrikeEvent[],
+  positions: (number | null)[],
+  moves: Pick<Move, 'type'>[]
+): FrameRange[][] {
+  const slots: FrameRange[][] = moves.map(() => []);
+  let previous: { strike: StrikeEvent; position: number } | null = null;
+
+  strikes.forEach((strike, i) => {
+    const position = positions[i];
+    if (position === null) {
+      previous = null;
+      return;
+    }
+
+    if (previous) {
+      // Positions passed over on the way from the previous strike to this one
+      const between: number[] = [];
+      for (let p = (previous.position + 1) % moves.length; p !== position; p = (p + 1) % moves.length) {
+        between.push(p);
+      }
+
+      const startIndex = previous.strike.endIndex + 1;
+      const length = strike.startIndex - startIndex;
+      if (
+        between.length > 0 &&
+        between.every((p) => moves[p].type === 'defensive') &&
+        length >= between.length
+      ) {
+        between.forEach((p, k) => {
+          slots[p].push({
+            startIndex: startIndex + Math.floor((length * k) / between.length),
+            endIndex: startIndex + Math.floor((length * (k + 1)) / between.length) - 1,
+          });
+        });
+      }
+    }
+
+    previous = { strike, position };
+  });
+
+  return slots;
+}
+
+/**
+ * Global alignment of detected strikes to the expanded pattern.
+ * Trailing pattern entries are free, since the round can end mid-combo.
+ */
+function align(
+  strikes: StrikeEvent[],
+  expected: ExpectedStrike[]
+): { ops: AlignmentOp[]; strikeIndices: number[]; extraStrikes: number } {
+  const m = strikes.length;
+  const n = expected.length;
+
+  // cost[i][j] = best cost aligning the first i strikes with the first j expected
+  const cost: number[][] = Array.from({ length: m + 1 }, () => new Array(n + 1).fill(0));
+  for (let i = 1; i <= m; i++) cost[i][0] = i;
+  for (let j = 1; j <= n; j++) cost[0][j] = j;
+
+  for (let i = 1; i <= m; i++) {
+    for (let j = 1; j <= n; j++) {
+      const same =
+        strikes[i - 1].limb === expected[j - 1].limb &&
+        strikes[i - 1].type === expected[j - 1].type;
+      cost[i][j] = Math.min(
+        cost[i - 1][j - 1] + (same ? 0 : 1), // match or wrong strike
+        cost[i - 1][j] + 1, // extra strike
+        cost[i][j - 1] + 1 // missed strike
+      );
+    }
+  }
+
+  // Free trailing gap: end wherever all strikes are consumed most cheaply,
+  // preferring wrong strikes over unmatched ones on ties
+  let endJ = 0;
+  for (let j = 1; j <= n; j++) {
+    if (cost[m][j] <= cost[m][endJ]) endJ = j;
+  }
+
+  const ops: AlignmentOp[] = new Array(n).fill('missed');
+  const strikeIndices: number[] = new Array(n).fill(-1);
+  let extraStrikes = 0;
+  let i = m;
+  let j = endJ;
+  while (i > 0 || j > 0) {
+    if (i > 0 && j > 0) {
+      const same =
+        strikes[i - 1].limb === expected[j - 1].limb &&
+        strikes[i - 1].type === expected[j - 1].type;
+      if (cost[i][j] === cost[i - 1][j - 1] + (same ? 0 : 1)) {
+        ops[j - 1] = same ? 'match' : 'wrong';
+        strikeIndices[j - 1] = i - 1;
+        i--;
+        j--;
+        continue;
+      }
+    }
+    if (i > 0 && cost[i][j] === cost[i - 1][j] + 1) {
+      extraStrikes++;
+      i--;
+    } else {
+      ops[j - 1] = 'missed';
+      j--;
+    }
+  }
+
+  return { ops, strikeIndices, extraStrikes };
+}
@@ -0,0 +1,162 @@
+// ============================================
+// Temporal Landmark Smoothing (One Euro Filter)
+// ============================================
+
+import type { DetectedPose, NormalizedLandmark, SmoothingConfig } from '../types';
+
+/**
+ * One Euro filter for a single scalar signal.
+ * Smooths heavily when the signal is slow and follows closely when it moves
+ * fast, so jitter is removed without lagging behind real strikes.
+ */
+class OneEuroFilter {
+  private prevValue: number | null = null;
+  private prevDerivative = 0;
+  private prevTime = 0;
+  private config: SmoothingConfig;
+
+  constructor(config: SmoothingConfig) {
+    this.config = config;
+  }
+
+  filter(value: number, timeSec: number): number {
+    if (this.prevValue === null) {
+      this.prevValue = value;
+      this.prevTime = timeSec;
+      return value;
+    }
+
+    const dt = timeSec - this.prevTime;
+    if (dt <= 0) return this.prevValue;
+
+    const derivative = (value - this.prevValue) / dt;
+    const smoothedDerivative = lerp(
+      this.prevDerivative,
+      derivative,
+      smoothingFactor(this.config.dCutoff, dt)
+    );
+
+    const cutoff = this.config.minCutoff + this.config.beta * Math.abs(smoothedDerivative);
+    const smoothed = lerp(this.prevValue, value, smoothingFactor(cutoff, dt));
+
+    this.prevValue = smoothed;
+    this.prevDerivative = smoothedDerivative;
+    this.prevTime = timeSec;
+    return smoothed;
+  }
+
+  /**
+   * Last filtered value, or null before the first sample
+   */
+  last(): number | null {
+    return this.prevValue;
+  }
+}
+
+/**
+ * Smooths full landmark sets over time. Landmarks below the configured
+ * visibility hold their last smoothed position instead of feeding noise
+ * into the filter.
+ */
+export class LandmarkSmoother {
+  private filters: { x: OneEuroFilter; y: OneEuroFilter; z: OneEuroFilter }[] = [];
+  private config: SmoothingConfig;
+
+  constructor(config: SmoothingConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Smooth one frame of landmarks
+   * @param timestamp - Frame time in milliseconds
+   */
+  smooth(landmarks: NormalizedLandmark[], timestamp: number): NormalizedLandmark[] {
+    if (!this.config.enabled) return landmarks;
+
+    const timeSec = timestamp / 1000;
+
+    return landmarks.map((lm, i) => {
+      if (!this.filters[i]) {
+        this.filters[i] = {
+          x: new OneEuroFilter(this.config),
+          y: new OneEuroFilter(this.config),
+          z: new OneEuroFilter(this.config),
+        };
+      }
+      const f = this.filters[i];
+
+      // Hold the last trusted position while the landmark is barely visible
+      const lastX = f.x.last();
+      if ((lm.visibility ?? 1) < this.config.minVisibility && lastX !== null) {
+        return {
+          x: lastX,
+          y: f.y.last() ?? lm.y,
+          z: f.z.last() ?? lm.z,
+          visibility: lm.visibility,
+        };
+      }
+
+      return {
+        x: f.x.filter(lm.x, timeSec),
+        y: f.y.filter(lm.y, timeSec),
+        z: f.z.filter(lm.z, timeSec),
+        visibility: lm.visibility,
+      };
+    });
+  }
+
+  /**
+   * Forget filter state (e.g. when a new recording starts)
+   */
+  reset(): void {
+    this.filters = [];
+  }
+}
+
+/**
+ * Smooths a whole detection, with separate filters for the image and
+ * world landmarks
+ */
+export class PoseSmoother {
+  private image: LandmarkSmoother;
+  private world: LandmarkSmoother;
+
+  constructor(config: SmoothingConfig) {
+    this.image = new LandmarkSmoother(config);
+    this.world = new LandmarkSmoother(config);
+  }
+
+  /**
+   * Smooth one detection
+   * @param timestamp - Frame time in milliseconds
+   */
+  smooth(pose: DetectedPose, timestamp: number): DetectedPose {
+    return {
+      landmarks: this.image.smooth(pose.landmarks, timestamp),
+      worldLandmarks: pose.worldLandmarks && this.world.smooth(pose.worldLandmarks, timestamp),
+    };
+  }
+
+  /**
+   * Forget filter state (e.g. when a new recording starts)
+   */
+  reset(): void {
+    this.image.reset();
+    this.world.reset();
+  }
+}
+
+/**
+ * Exponential smoothing factor for a cutoff frequency (Hz) and time step (s)
+ */
+function smoothingFactor(cutoff: number, dt: number): number {
+  const tau = 1 / (2 * Math.PI * cutoff);
+  return 1 / (1 + tau / dt);
+}
+
+/**
+ * Linear interpolation from a to b
+ */
+function lerp(a: number, b: number, t: number): number {
+  return a + (b - a) * t;
+}
@@ -0,0 +1,55 @@
+// ============================================
+// Strike Speed
+// ============================================
+
+import type { PoseFrame, StrikeEvent, CalibrationData, SessionData } from '../types';
+import { getPeakVelocity } from './metrics';
+import { LIMB_JOINTS } from './segmentation';
+
+// One session's top speed for a move
+export interface SpeedPoint {
+  timestamp: number; // session time
+  topSpeed: number; // shoulder widths per second
+}
+
+/**
+ * Peak wrist (punches, elbows) or ankle (kicks, knees) speed of a strike,
+ * in shoulder widths per second
+ */
+export function getStrikeSpeed(
+  frames: PoseFrame[],
+  strike: StrikeEvent,
+  calibration: CalibrationData | null
+): number {
+  return getPeakVelocity(
+    frames,
+    LIMB_JOINTS[strike.limb].end,
+    strike.startIndex,
+    strike.endIndex,
+    calibration
+  );
+}
+
+/**
+ * Each move's top speed per session, oldest first. Sessions scored before
+ * speed was measured are left out.
+ */
+export function getTopSpeedHistory(sessions: SessionData[]): Record<string, SpeedPoint[]> {
+  const history: Record<string, SpeedPoint[]> = {};
+  const chronological = [...sessions].sort((a, b) => a.timestamp - b.timestamp);
+
+  for (const session of chronological) {
+    // A move can appear at several positions of a combo; keep its fastest
+    const topByMove: Record<string, number> = {};
+    for (const move of session.score?.moves ?? []) {
+      if (move.topSpeed === undefined) continue;
+      topByMove[move.moveId] = Math.max(topByMove[move.moveId] ?? 0, move.topSpeed);
+    }
+
+    for (const [moveId, topSpeed] of Object.entries(topByMove)) {
+      (history[moveId] ??= []).push({ timestamp: session.timestamp, topSpeed });
+    }
+  }
+
+  return history;
+}
@@ -0,0 +1,370 @@
+// ============================================
+// Technique Checkers
+// Per-move technique assessment, keyed by Move.id with a MoveType fallback
+// ============================================
+
+import type {
+  PoseFrame,
+  Move,
+  MoveType,
+  StrikeEvent,
+  FrameRange,
+  CalibrationData,
+  ScoringRubric,
+  TechniqueScore,
+} from '../types';
+import { getJointAngle, getBodyScale, getConfidence, isGuardUp, MIN_VISIBILITY } from './metrics';
+import { LIMB_JOINTS, isArm } from './segmentation';
+import { getKickTarget, measureKick, scoreKick, getKickFaults } from './kicks';
+
+export interface TechniqueContext {
+  moveId: string; // Move.id the strike was matched to
+  calibration: CalibrationData | null;
+  rubric: ScoringRubric; // already resolved for the combo
+}
+
+// Judges one detected strike of a move
+export type TechniqueChecker = (
+  frames: PoseFrame[],
+  strike: StrikeEvent,
+  context: TechniqueContext
+) => TechniqueScore;
+
+// Ideal elbow fold at peak for bent-arm punches (degrees)
+const BENT_ARM_ANGLE = { min: 70, max: 110 };
+
+// Ideal knee angle at peak for leg strikes (degrees)
+const KICK_ANGLE = { min: 150, max: 180 };
+const KNEE_ANGLE = { min: 0, max: 70 };
+
+// Tightest elbow fold for elbow strikes (degrees)
+const MAX_ELBOW_STRIKE_ANGLE = 60;
+
+// Height targets, in shoulder widths (negative = below the shoulder)
+const MIN_PUNCH_WRIST_HEIGHT = -0.5; // straight punches land around chin height
+const MIN_HOOK_ELBOW_HEIGHT = -0.35; // hook elbow level with the fist
+const MIN_STRIKE_ELBOW_HEIGHT = -0.1; // elbow strikes come over the top
+const MIN_UPPERCUT_RISE = 0.3; // fist drives up from its lowest point
+
+// Points lost per unit outside the target
+const ANGLE_PENALTY_PER_DEGREE = 2;
+const HEIGHT_PENALTY_PER_SHOULDER_WIDTH = 100;
+
+// Share of a move's strikes that must show a fault before it is reported
+const FAULT_MAJORITY = 0.5;
+
+/**
+ * Jab and cross: full extension at chin height
+ */
+const checkStraightPunch: TechniqueChecker = (frames, strike, { calibration, rubric }) => {
+  const extensionAngle = getPeakAngle(frames, strike, calibration);
+  const wristHeight = getHeightAboveShoulder(frames[strike.peakIndex], strike, 'end', calibration);
+  const minAngle = rubric.execution.punchExtension.minAngle;
+
+  return buildCheck(
+    { extensionAngle, wristHeight },
+    [
+      {
+        points: 100 - Math.max(0, minAngle - extensionAngle) * ANGLE_PENALTY_PER_DEGREE,
+        key: 'feedback.improvements.extendMore',
+      },
+      {
+        points: 100 - Math.max(0, MIN_PUNCH_WRIST_HEIGHT - wristHeight) * HEIGHT_PENALTY_PER_SHOULDER_WIDTH,
+        key: 'feedback.improvements.punchShoulderHeight',
+      },
+    ]
+  );
+};
+
+/**
+ * Hooks: arm bent near 90° with the elbow raised level with the fist
+ */
+const checkHook: TechniqueChecker = (frames, strike, { calibration }) => {
+  const elbowAngle = getPeakAngle(frames, strike, calibration);
+  const elbowHeight = getHeightAboveShoulder(frames[strike.peakIndex], strike, 'mid', calibration);
+
+  return buildCheck(
+    { elbowAngle, elbowHeight },
+    [
+      { points: scoreAngle(elbowAngle, BENT_ARM_ANGLE), key: 'feedback.improvements.bendHookArm' },
+      {
+        points: 100 - Math.max(0, MIN_HOOK_ELBOW_HEIGHT - elbowHeight) * HEIGHT_PENALTY_PER_SHOULDER_WIDTH,
+        key: 'feedback.improvements.raiseHookElbow',
+      },
+    ]
+  );
+};
+
+/**
+ * Uppercuts: arm bent near 90° with the fist driving upwards into the peak
+ */
+const checkUppercut: TechniqueChecker = (frames, strike, { calibration }) => {
+  const elbowAngle = getPeakAngle(frames, strike, calibration);
+  const peakHeight = getHeightAboveShoulder(frames[strike.peakIndex], strike, 'end', calibration);
+
+  // Only frames where the shoulder and fist are both visible
+  const { root, end } = LIMB_JOINTS[strike.limb];
+  let lowest = peakHeight;
+  for (let i = strike.startIndex; i < strike.peakIndex; i++) {
+    if (getConfidence(frames[i].landmarks, [root, end]) < MIN_VISIBILITY) continue;
+    lowest = Math.min(lowest, getHeightAboveShoulder(frames[i], strike, 'end', calibration));
+  }
+  const wristRise = peakHeight - lowest;
+
+  return buildCheck(
+    { elbowAngle, wristRise },
+    [
+      { points: scoreAngle(elbowAngle, BENT_ARM_ANGLE), key: 'feedback.improvements.bendUppercutArm' },
+      {
+        points: 100 - Math.max(0, MIN_UPPERCUT_RISE - wristRise) * HEIGHT_PENALTY_PER_SHOULDER_WIDTH,
+        key: 'feedback.improvements.driveUppercutUp',
+      },
+    ]
+  );
+};
+
+/**
+ * Elbow strikes: a tight fold with the elbow brought up to shoulder height
+ */
+const checkElbow: TechniqueChecker = (frames, strike, { calibration }) => {
+  const elbowAngle = getPeakAngle(frames, strike, calibration);
+  const elbowHeight = getHeightAboveShoulder(frames[strike.peakIndex], strike, 'mid', calibration);
+
+  return buildCheck(
+    { elbowAngle, elbowHeight },
+    [
+      {
+        points: scoreAngle(elbowAngle, { min: 0, max: MAX_ELBOW_STRIKE_ANGLE }),
+        key: 'feedback.improvements.foldElbow',
+      },
+      {
+        points: 100 - Math.max(0, MIN_STRIKE_ELBOW_HEIGHT - elbowHeight) * HEIGHT_PENALTY_PER_SHOULDER_WIDTH,
+        key: 'feedback.improvements.raiseElbow',
+      },
+    ]
+  );
+};
+
+/**
+ * Kicks and knees: peak knee angle, plus the move's kick mechanics when it
+ * has targets. The mechanics and their kickQuality go into the evidence, so
+ * they are measured once per strike. Faults are named through the rubric's
+ * kickFaults.
+ */
+function createLegChecker(peakAngle: { min: number; max: number }): TechniqueChecker {
+  return (frames, strike, { moveId, calibration, rubric }) => {
+    const kneeAngle = getPeakAngle(frames, strike, calibration);
+    const target = getKickTarget(moveId);
+    const shape = scoreAngle(kneeAngle, peakAngle);
+    if (!target || isArm(strike.limb)) {
+      return buildCheck({ kneeAngle }, [{ points: shape, key: 'feedback.improvements.extendMore' }]);
+    }
+
+    const metrics = measureKick(frames, strike, calibration);
+    const kickQuality = scoreKick(metrics, target);
+    return {
+      score: Math.round((shape + kickQuality) / 2),
+      evidence: roundEvidence({ kneeAngle, ...metrics, kickQuality }),
+      feedback: getKickFaults(metrics, target).map((fault) => rubric.feedback.kickFaults[fault]),
+    };
+  };
+}
+
+/**
+ * Defensive moves: both hands stay up through the slot the move belongs in
+ * @returns null when the wrists were hidden for the whole slot
+ */
+function checkDefensive(
+  frames: PoseFrame[],
+  slot: FrameRange,
+  { calibration, rubric }: Omit<TechniqueContext, 'moveId'>
+): TechniqueScore | null {
+  let upFrames = 0;
+  let judged = 0;
+  for (let i = slot.startIndex; i <= slot.endIndex; i++) {
+    const guard = isGuardUp(frames[i].landmarks, calibration, rubric.guard);
+    if (guard.confidence < MIN_VISIBILITY) continue;
+    judged++;
+    if (guard.leftUp && guard.rightUp) upFrames++;
+  }
+  if (judged === 0) return null;
+  const guardUpRatio = upFrames / judged;
+
+  return buildCheck(
+    { guardUpRatio },
+    [{ points: guardUpRatio * 100, key: 'feedback.improvements.raiseGuard' }]
+  );
+}
+
+const checkKick = createLegChecker(KICK_ANGLE);
+const checkKnee = createLegChecker(KNEE_ANGLE);
+
+// Checkers for specific moves, lead and rear variants included
+const MOVE_CHECKERS: Record<string, TechniqueChecker> = {
+  jab: checkStraightPunch,
+  cross: checkStraightPunch,
+  hook: checkHook,
+  rearHook: checkHook,
+  uppercut: checkUppercut,
+  leadUppercut: checkUppercut,
+  elbow: checkElbow,
+  leadElbow: checkElbow,
+};
+
+// Fallback for moves without their own checker. Defensive moves throw no
+// strikes and are judged on their slots instead (checkDefensiveSlots).
+const TYPE_CHECKERS: Record<Exclude<MoveType, 'defensive'>, TechniqueChecker> = {
+  punch: checkStraightPunch,
+  kick: checkKick,
+  knee: checkKnee,
+  elbow: checkElbow,
+};
+
+/**
+ * Checker for a move: its own if registered, otherwise its type's
+ * @returns undefined for defensive moves
+ */
+export function getTechniqueChecker(move: Pick<Move, 'id' | 'type'>): TechniqueChecker | undefined {
+  if (MOVE_CHECKERS[move.id]) return MOVE_CHECKERS[move.id];
+  return move.type === 'defensive' ? undefined : TYPE_CHECKERS[move.type];
+}
+
+/**
+ * Run a move's checker over every visible strike matched to it and average
+ * the results. Feedback keeps the faults seen on most strikes.
+ * @returns undefined when no strike was visible or the move has no checker
+ */
+export function checkTechnique(
+  frames: PoseFrame[],
+  strikes: StrikeEvent[],
+  move: Pick<Move, 'id' | 'type'>,
+  context: Omit<TechniqueContext, 'moveId'>
+): TechniqueScore | undefined {
+  const checker = getTechniqueChecker(move);
+  const visible = strikes.filter((strike) => isStrikeVisible(frames, strike));
+  if (!checker || visible.length === 0) return undefined;
+
+  return averageChecks(
+    visible.map((strike) => checker(frames, strike, { ...context, moveId: move.id }))
+  );
+}
+
+/**
+ * Judge a defensive move in each slot it belongs in (see getDefensiveSlots)
+ * and average the results
+ * @returns undefined when no slot could be judged
+ */
+export function checkDefensiveSlots(
+  frames: PoseFrame[],
+  slots: FrameRange[],
+  context: Omit<TechniqueContext, 'moveId'>
+): TechniqueScore | undefined {
+  const checks = slots
+    .map((slot) => checkDefensive(frames, slot, context))
+    .filter((check): check is TechniqueScore => check !== null);
+  return checks.length > 0 ? averageChecks(checks) : undefined;
+}
+
+/**
+ * Mean score of several checks, each measurement averaged over the checks
+ * that took it, with the faults seen on most
+ */
+function averageChecks(checks: TechniqueScore[]): TechniqueScore {
+  const sums: Record<string, { total: number; count: number }> = {};
+  for (const check of checks) {
+    for (const [name, value] of Object.entries(check.evidence)) {
+      sums[name] = { total: (sums[name]?.total ?? 0) + value, count: (sums[name]?.count ?? 0) + 1 };
+    }
+  }
+  const evidence = Object.fromEntries(
+    Object.entries(sums).map(([name, { total, count }]) => [name, total / count])
+  );
+
+  const faultCounts = new Map<string, number>();
+  for (const check of checks) {
+    for (const key of check.feedback) faultCounts.set(key, (faultCounts.get(key) ?? 0) + 1);
+  }
+
+  return {
+    score: Math.round(checks.reduce((sum, check) => sum + check.score, 0) / checks.length),
+    evidence: roundEvidence(evidence),
+    feedback: [...faultCounts]
+      .filter(([, count]) => count / checks.length >= FAULT_MAJORITY)
+      .map(([key]) => key),
+  };
+}
+
+/**
+ * Whether the striking limb's three joints are visible at the peak, so its
+ * angle and height can be trusted
+ */
+export function isStrikeVisible(frames: PoseFrame[], strike: StrikeEvent): boolean {
+  const { root, mid, end } = LIMB_JOINTS[strike.limb];
+  return getConfidence(frames[strike.peakIndex].landmarks, [root, mid, end]) >= MIN_VISIBILITY;
+}
+
+/**
+ * Joint angle of the striking limb at peak extension: elbow for arm
+ * strikes, knee for leg strikes
+ */
+export function getPeakAngle(
+  frames: PoseFrame[],
+  strike: StrikeEvent,
+  calibration: CalibrationData | null
+): number {
+  const { landmarks, worldLandmarks } = frames[strike.peakIndex];
+  return getJointAngle(
+    landmarks,
+    LIMB_JOINTS[strike.limb],
+    isArm(strike.limb) ? 'elbow' : 'knee',
+    { worldLandmarks, viewAngle: calibration?.viewAngle }
+  );
+}
+
+/**
+ * Score from separate criteria, each 0-100, with the feedback key of every
+ * criterion that lost points
+ */
+function buildCheck(
+  evidence: Record<string, number>,
+  criteria: { points: number; key: string }[]
+): TechniqueScore {
+  const clamped = criteria.map((c) => ({ ...c, points: Math.max(0, Math.min(100, c.points)) }));
+  return {
+    score: Math.round(clamped.reduce((sum, c) => sum + c.points, 0) / clamped.length),
+    evidence: roundEvidence(evidence),
+    feedback: clamped.filter((c) => c.points < 100).map((c) => c.key),
+  };
+}
+
+/**
+ * 100 inside the range, minus ANGLE_PENALTY_PER_DEGREE for each degree outside
+ */
+function scoreAngle(angle: number, range: { min: number; max: number }): number {
+  const miss = Math.max(0, range.min - angle, angle - range.max);
+  return 100 - miss * ANGLE_PENALTY_PER_DEGREE;
+}
+
+/**
+ * Height of the elbow ('mid') or wrist ('end') of the striking arm above
+ * its shoulder, in shoulder widths
+ */
+function getHeightAboveShoulder(
+  frame: PoseFrame,
+  strike: StrikeEvent,
+  joint: 'mid' | 'end',
+  calibration: CalibrationData | null
+): number {
+  const joints = LIMB_JOINTS[strike.limb];
+  const scale = getBodyScale(frame.landmarks, calibration);
+  return (frame.landmarks[joints.root].y - frame.landmarks[joints[joint]].y) / scale;
+}
+
+/**
+ * Round measurements for storage
+ */
+function roundEvidence(evidence: Record<string, number>): Record<string, number> {
+  return Object.fromEntries(
+    Object.entries(evidence).map(([name, value]) => [name, Math.round(value * 100) / 100])
+  );
+}
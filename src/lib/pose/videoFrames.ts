@@ -0,0 +1,77 @@
+// ============================================
+// Video Frame Sources for Offline Analysis
+// ============================================
+
+/**
+ * Load a video blob into a muted, detached video element
+ * @returns The element and a cleanup function that revokes its object URL
+ */
+export function loadVideo(blob: Blob): Promise<{ video: HTMLVideoElement; release: () => void }> {
+  const video = document.createElement('video');
+  video.muted = true;
+  video.playsInline = true;
+
+  const url = URL.createObjectURL(blob);
+  const release = () => {
+    video.removeAttribute('src');
+    video.load();
+    URL.revokeObjectURL(url);
+  };
+
+  return new Promise((resolve, reject) => {
+    video.onloadedmetadata = () => {
+      resolveDuration(video).then(() => resolve({ video, release }));
+    };
+    video.onerror = () => {
+      release();
+      reject(new Error('Failed to load video'));
+    };
+    video.src = url;
+  });
+}
+
+/**
+ * MediaRecorder webm files have no duration in their header; seeking far
+ * past the end makes the browser scan the file and report the real one
+ */
+async function resolveDuration(video: HTMLVideoElement): Promise<void> {
+  if (Number.isFinite(video.duration)) return;
+  await seekVideo(video, Number.MAX_SAFE_INTEGER);
+  await seekVideo(video, 0);
+}
+
+/**
+ * Seek a video element and wait until the frame is ready
+ */
+export function seekVideo(video: HTMLVideoElement, timeSec: number): Promise<void> {
+  return new Promise((resolve) => {
+    video.onseeked = () => resolve();
+    video.currentTime = timeSec;
+  });
+}
+
+/**
+ * Frame times (ms) to sample for a given duration and preset fps
+ */
+export function getSampleTimes(durationSec: number, fps: number): number[] {
+  const frameInterval = 1000 / fps;
+  const times: number[] = [];
+  for (let time = 0; time <= durationSec * 1000; time += frameInterval) {
+    times.push(time);
+  }
+  return times;
+}
+
+/**
+ * Error thrown when an analysis is cancelled through its AbortSignal
+ */
+export function createAbortError(): DOMException {
+  return new DOMException('Analysis cancelled', 'AbortError');
+}
+
+/**
+ * Whether an error came from a cancelled analysis
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
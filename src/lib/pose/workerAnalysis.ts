@@ -0,0 +1,153 @@
+// ============================================
+// Off-main-thread Video Analysis
+// Feeds video frames to the pose worker and collects landmarks
+// ============================================
+
+import type { AnalysisQualityPreset, DetectedPose, PoseFrame } from '../types';
+import {
+  loadVideo,
+  seekVideo,
+  getSampleTimes,
+  createAbortError,
+} from './videoFrames';
+
+// Messages sent to the pose worker
+export type PoseWorkerRequest =
+  | { type: 'init'; preset: AnalysisQualityPreset }
+  | { type: 'decode'; blob: Blob; preset: AnalysisQualityPreset }
+  | { type: 'frame'; frame: ImageBitmap; timestamp: number };
+
+// Messages sent back by the pose worker: one reply per request, plus
+// any number of 'progress' updates while decoding
+export type PoseWorkerResponse =
+  | { type: 'ready' }
+  | { type: 'progress'; progress: number }
+  | { type: 'frames'; frames: PoseFrame[] }
+  | { type: 'unsupported' } // container or codec the decoder can't handle
+  | { type: 'pose'; pose: DetectedPose | null }
+  | { type: 'error'; message: string };
+
+/**
+ * Whether this browser can run pose analysis in a worker
+ */
+export function supportsWorkerAnalysis(): boolean {
+  return (
+    typeof Worker !== 'undefined' &&
+    typeof OffscreenCanvas !== 'undefined' &&
+    typeof createImageBitmap !== 'undefined'
+  );
+}
+
+/**
+ * Whether the worker can decode videos itself with WebCodecs
+ */
+export function supportsWebCodecs(): boolean {
+  return typeof VideoDecoder !== 'undefined' && typeof EncodedVideoChunk !== 'undefined';
+}
+
+/**
+ * Analyze a video blob with detection running in a dedicated worker.
+ * With WebCodecs the worker decodes the file itself; otherwise the main
+ * thread seeks and hands frames over. Either way the UI stays responsive.
+ * @param onProgress - Progress callback (0-100)
+ * @param signal - Cancels the analysis and terminates the worker
+ */
+export async function analyzeVideoInWorker(
+  blob: Blob,
+  preset: AnalysisQualityPreset,
+  onProgress?: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<PoseFrame[]> {
+  if (signal?.aborted) throw createAbortError();
+
+  const worker = new Worker(new URL('./poseWorker.ts', import.meta.url));
+  const frames: PoseFrame[] = [];
+
+  // Set once the signal fires; the worker is gone from then on
+  let aborted = false;
+
+  // The worker answers each request in order, so one pending reply is enough
+  let pending: { resolve: (response: PoseWorkerResponse) => void; reject: (error: unknown) => void } | null = null;
+
+  const settle = (outcome: { response: PoseWorkerResponse } | { error: unknown }) => {
+    const current = pending;
+    pending = null;
+    if (!current) return;
+    if ('error' in outcome) current.reject(outcome.error);
+    else current.resolve(outcome.response);
+  };
+
+  const send = (message: PoseWorkerRequest, transfer: Transferable[] = []) =>
+    new Promise<PoseWorkerResponse>((resolve, reject) => {
+      if (aborted) {
+        reject(createAbortError());
+        return;
+      }
+      pending = { resolve, reject };
+      worker.postMessage(message, transfer);
+    });
+
+  worker.onmessage = (event: MessageEvent<PoseWorkerResponse>) => {
+    const response = event.data;
+    if (response.type === 'progress') onProgress?.(response.progress);
+    else if (response.type === 'error') settle({ error: new Error(response.message) });
+    else settle({ response });
+  };
+  worker.onerror = (event) => {
+    settle({ error: new Error(event.message || 'Pose worker failed') });
+  };
+
+  const handleAbort = () => {
+    aborted = true;
+    worker.terminate();
+    settle({ error: createAbortError() });
+  };
+  signal?.addEventListener('abort', handleAbort);
+
+  let release: (() => void) | null = null;
+
+  try {
+    await send({ type: 'init', preset });
+
+    if (supportsWebCodecs()) {
+      const response = await send({ type: 'decode', blob, preset });
+      if (response.type === 'frames') return response.frames;
+      // Unsupported container or codec: fall back to seeking below
+    }
+
+    const loaded = await loadVideo(blob);
+    release = loaded.release;
+    const { video } = loaded;
+    if (signal?.aborted) throw createAbortError();
+
+    const duration = Math.min(video.duration, preset.maxDurationSec);
+    const sampleTimes = getSampleTimes(duration, preset.fps);
+
+    for (let i = 0; i < sampleTimes.length; i++) {
+      if (signal?.aborted) throw createAbortError();
+
+      const time = sampleTimes[i];
+      await seekVideo(video, time / 1000);
+      if (signal?.aborted) throw createAbortError();
+
+      const frame = await createImageBitmap(video);
+      if (signal?.aborted) {
+        frame.close();
+        throw createAbortError();
+      }
+      const response = await send({ type: 'frame', frame, timestamp: time }, [frame]);
+
+      if (response.type === 'pose' && response.pose) {
+        frames.push({ timestamp: time, ...response.pose });
+      }
+
+      onProgress?.(Math.round(((i + 1) / sampleTimes.length) * 100));
+    }
+
+    return frames;
+  } finally {
+    signal?.removeEventListener('abort', handleAbort);
+    worker.terminate();
+    release?.();
+  }
+}
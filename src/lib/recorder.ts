@@ -79,6 +79,10 @@ export class VideoRecorder {
   private startTime: number = 0;
   private isRecording: boolean = false;
   private isPaused: boolean = false;
+  // Recording clock (performance.now() based) that stands still while paused
+  private clockStart: number = 0;
+  private pausedAt: number = 0;
+  private pausedTotal: number = 0;
 
   constructor() {
     this.mimeType = getBestMimeType() || 'video/webm';
@@ -117,6 +121,8 @@ export class VideoRecorder {
 
     this.mediaRecorder.start(100); // Collect data every 100ms
     this.startTime = Date.now();
+    this.clockStart = performance.now();
+    this.pausedTotal = 0;
     this.isRecording = true;
   }
 
@@ -162,6 +168,7 @@ export class VideoRecorder {
     }
 
     this.mediaRecorder.pause();
+    this.pausedAt = performance.now();
     this.isPaused = true;
   }
 
@@ -174,9 +181,20 @@ export class VideoRecorder {
     }
 
     this.mediaRecorder.resume();
+    this.pausedTotal += performance.now() - this.pausedAt;
     this.isPaused = false;
   }
 
+  /**
+   * Position in the recorded video (ms) at a given performance.now() time.
+   * Paused spans are excluded, so this matches the saved video's timeline.
+   */
+  getRecordingTime(now: number = performance.now()): number {
+    if (!this.isRecording) return 0;
+    const end = this.isPaused ? this.pausedAt : now;
+    return Math.max(0, end - this.clockStart - this.pausedTotal);
+  }
+
   /**
    * Check if currently recording
    */
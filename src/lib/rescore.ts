@@ -0,0 +1,119 @@
+// ============================================
+// Re-scoring of Stored Sessions
+// Rebuilds scores with the current algorithm from saved landmarks or video
+// ============================================
+
+import type { SessionData, PoseFrame } from './types';
+import { getComboById, getComboMoves, MOVES } from './combos';
+import { getCalibration, getHistory, updateSession, getScoringRubric } from './settings';
+import { getPoseFrames, savePoseFrames, getVideo } from './videoStorage';
+import { analyzeVideoBlob } from './pose/pose';
+import { createAbortError, isAbortError } from './pose/videoFrames';
+import { generateScore, getMoveTypesFromCombo, SCORING_VERSION } from './pose/scoring';
+
+/**
+ * Whether a session's score was produced by an older scoring algorithm
+ */
+export function isScoreOutdated(session: SessionData): boolean {
+  if (!session.score) return false;
+  return (session.score.version ?? 0) < SCORING_VERSION;
+}
+
+/**
+ * Re-score one session. Uses stored landmarks when available and falls
+ * back to re-analysing the local video.
+ * @param onProgress - Analysis progress 0-100
+ * @param signal - Cancels a running video analysis
+ * @returns false when neither landmarks nor video are stored
+ */
+export async function rescoreSession(
+  session: SessionData,
+  onProgress?: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<boolean> {
+  const combo = getComboById(session.comboId);
+  if (!combo) return false;
+
+  let frames: PoseFrame[] | null = await getPoseFrames(session.id).catch(() => null);
+
+  if (!frames) {
+    const video = await getVideo(session.id).catch(() => null);
+    if (!video) return false;
+
+    updateSession(session.id, { isAnalyzing: true, analysisProgress: 0 });
+    try {
+      frames = await analyzeVideoBlob(
+        video,
+        (progress) => {
+          onProgress?.(progress);
+          if (progress % 5 === 0 || progress === 100) {
+            updateSession(session.id, { analysisProgress: progress });
+          }
+        },
+        undefined,
+        signal
+      );
+    } finally {
+      updateSession(session.id, { isAnalyzing: false });
+    }
+
+    savePoseFrames(session.id, frames).catch((err) => {
+      console.error('Failed to save pose frames locally:', err);
+    });
+  }
+
+  // Score with the calibration the round was recorded under, so a later
+  // recalibration doesn't change it. Older sessions take the current one,
+  // which is then kept with them.
+  const calibration = session.calibration !== undefined ? session.calibration : getCalibration();
+  const analysisResult = generateScore(frames, {
+    calibration,
+    comboMoveTypes: getMoveTypesFromCombo(combo.moveIds, MOVES),
+    comboMoves: getComboMoves(combo),
+    combo,
+    rubric: getScoringRubric(),
+  });
+
+  updateSession(session.id, {
+    score: analysisResult.score,
+    reps: analysisResult.reps,
+    calibration,
+    analysisProgress: 100,
+  });
+  onProgress?.(100);
+
+  return true;
+}
+
+/**
+ * Re-score every session in history, one at a time
+ * @param onProgress - Called after each session with (completed, total)
+ * @param onlyOutdated - Skip sessions already scored by the current version
+ * @param signal - Stops after the current session (rejects with an AbortError)
+ * @returns Number of sessions that were re-scored
+ */
+export async function rescoreHistory(
+  onProgress?: (completed: number, total: number) => void,
+  onlyOutdated = false,
+  signal?: AbortSignal
+): Promise<number> {
+  const sessions = getHistory().filter(
+    (s) => !s.isAnalyzing && (!onlyOutdated || isScoreOutdated(s))
+  );
+  let rescored = 0;
+
+  onProgress?.(0, sessions.length);
+
+  for (let i = 0; i < sessions.length; i++) {
+    if (signal?.aborted) throw createAbortError();
+    try {
+      if (await rescoreSession(sessions[i], undefined, signal)) rescored++;
+    } catch (err) {
+      if (isAbortError(err)) throw err;
+      console.error(`Failed to re-score session ${sessions[i].id}:`, err);
+    }
+    onProgress?.(i + 1, sessions.length);
+  }
+
+  return rescored;
+}
@@ -3,15 +3,20 @@ import type {
   CalibrationData,
   MusicSettings,
   TrainingSettings,
+  CoachingOverlaySettings,
   SessionData,
   AnalysisQuality,
   AnalysisQualityPreset,
+  ScoringRubric,
+  RubricFile,
 } from './types';
 import {
   DEFAULT_TRAINING_SETTINGS,
   DEFAULT_ANALYSIS_QUALITY,
   ANALYSIS_QUALITY_PRESETS,
+  DEFAULT_COACHING_OVERLAY_SETTINGS,
 } from './types';
+import { DEFAULT_RUBRIC, loadImportedRubric } from './pose/rubric';
 
 // Storage keys
 const SETTINGS_KEY = 'muay-thai-coach-settings';
@@ -38,6 +43,8 @@ const DEFAULT_SETTINGS: UserSettings = {
   },
   training: DEFAULT_TRAINING_SETTINGS,
   analysisQuality: DEFAULT_ANALYSIS_QUALITY,
+  coachingOverlay: DEFAULT_COACHING_OVERLAY_SETTINGS,
+  scoringRubric: null,
 };
 
 export function getSettings(): UserSettings {
@@ -92,6 +99,18 @@ export function getSettings(): UserSettings {
       needsSave = true;
     }
 
+    // Migration: add coachingOverlay if missing
+    if (!settings.coachingOverlay) {
+      settings.coachingOverlay = DEFAULT_COACHING_OVERLAY_SETTINGS;
+      needsSave = true;
+    }
+
+    // Migration: add scoringRubric if missing
+    if (settings.scoringRubric === undefined) {
+      settings.scoringRubric = null;
+      needsSave = true;
+    }
+
     // Migration logic for future schema changes
     if (settings.version < CURRENT_VERSION) {
       return migrateSettings(settings);
@@ -246,6 +265,52 @@ export function getAnalysisQualityPreset(): AnalysisQualityPreset {
   return ANALYSIS_QUALITY_PRESETS[quality];
 }
 
+// ============================================
+// Coaching Overlay Settings Management
+// ============================================
+
+export function getCoachingOverlaySettings(): CoachingOverlaySettings {
+  return getSettings().coachingOverlay;
+}
+
+export function saveCoachingOverlaySettings(overlay: CoachingOverlaySettings): void {
+  const settings = getSettings();
+  settings.coachingOverlay = overlay;
+  saveSettings(settings);
+}
+
+// ============================================
+// Scoring Rubric Management
+// ============================================
+
+// The imported file layered over the built-in rubric, or the built-in one
+export function getScoringRubric(): ScoringRubric {
+  const file = getSettings().scoringRubric;
+  if (!file) return DEFAULT_RUBRIC;
+
+  try {
+    return loadImportedRubric(file);
+  } catch (error) {
+    console.error('Stored scoring rubric is invalid, using the built-in one:', error);
+    return DEFAULT_RUBRIC;
+  }
+}
+
+// Throws naming the first invalid field or a missing id, without storing anything
+export function importScoringRubric(json: unknown): ScoringRubric {
+  const rubric = loadImportedRubric(json);
+  const settings = getSettings();
+  settings.scoringRubric = json as RubricFile;
+  saveSettings(settings);
+  return rubric;
+}
+
+export function clearScoringRubric(): void {
+  const settings = getSettings();
+  settings.scoringRubric = null;
+  saveSettings(settings);
+}
+
 // ============================================
 // Session History Management
 // ============================================
@@ -71,6 +71,8 @@ export interface AvatarPose {
   rightAnkle: Point2D;
 }
 
+export type AvatarJoint = keyof AvatarPose;
+
 export interface Point2D {
   x: number;
   y: number;
@@ -114,6 +116,16 @@ export interface SessionData {
   hasLocalVideo?: boolean; // True if video is stored locally in IndexedDB
   isAnalyzing?: boolean; // True while background analysis is in progress
   analysisProgress?: number; // 0-100 progress percentage
+  reps?: RepCount; // missing on sessions recorded before rep counting
+  calibration?: CalibrationData | null; // calibration the round was scored with; missing on older sessions
+}
+
+// Training volume counted from a round
+export interface RepCount {
+  comboReps: number; // repetitions with every strike of the combo matched
+  totalStrikes: number;
+  strikesByType: Partial<Record<MoveType, number>>;
+  strikesByMove: Record<string, number>; // Move.id -> strikes matched to that move
 }
 
 export interface SessionScore {
@@ -125,6 +137,116 @@ export interface SessionScore {
   strengths: string[]; // i18n keys
   improvements: string[]; // i18n keys
   warnings: string[]; // i18n keys
+  sequence?: SequenceScore; // missing on sessions scored before sequence checks
+  moves?: MoveScore[]; // one per Combo.moveIds entry; missing on older sessions
+  version?: number; // SCORING_VERSION that produced this score; missing on legacy scores
+  returnToGuard?: ReturnToGuardScore; // missing when no strike could be measured
+  fatigue?: FatigueScore; // missing on older sessions and rounds too short to split
+  safety?: SafetyWarning[]; // injury-prone patterns; missing on sessions scored before safety checks
+  head?: HeadScore; // missing on sessions scored before head tracking
+  profile?: ScoringProfile; // missing on sessions scored before scoring profiles
+  scorableRatio?: number; // 0-1 share of the round visible enough to score; missing on older sessions
+}
+
+// Rubric and overrides a score was produced with
+export interface ScoringProfile {
+  rubric: string; // ScoringRubric.id
+  overrides: string[]; // RubricOverride.profile of each override applied, in order
+}
+
+// Where the head was kept over the round
+export interface HeadScore {
+  chinTuckedRatio: number; // 0-1 share of frames with the chin down behind the lead shoulder
+  centeredRatio: number | null; // 0-1 share of punches with the head over the hips; null without punches
+  leaningRatio: number | null; // 0-1 share of punches leaning straight in; null without punches or world landmarks
+  score: number; // 0-100, folded into the guard subscore
+}
+
+export type SafetyIssue = 'elbowLock' | 'kneeCave' | 'headPastKnee';
+
+// An injury-prone pattern and the strikes where it showed up
+export interface SafetyWarning {
+  issue: SafetyIssue; // i18n: feedback.safety.<issue>
+  times: number[]; // strike peak times in ms, earliest first
+}
+
+// Guard, extension and output over consecutive windows of the round
+export interface FatigueScore {
+  windowMs: number; // length of each window
+  windows: FatigueWindow[];
+  drops: FatigueDrop[]; // metrics that fell off and stayed down
+}
+
+export interface FatigueWindow {
+  start: number; // ms from the start of the recording
+  guardUpRatio: number | null; // 0-1 share of frames between strikes with both hands up; null when the wrists were hidden
+  extension: number | null; // mean elbow angle at punch peaks; null without punches
+  strikeRate: number; // strikes per minute
+}
+
+export type FatigueMetric = 'guard' | 'extension' | 'strikeRate';
+
+export interface FatigueDrop {
+  metric: FatigueMetric;
+  from: number; // ms at which the metric first fell below the early-round baseline
+}
+
+// How quickly strikes came back to guard after peak extension
+export interface ReturnToGuardScore {
+  strikes: number; // strikes measured
+  avgMs: number; // average time from peak until back in guard
+  worst: { limb: Limb; time: number; latencyMs: number }[]; // slowest first; time = peak ms
+  slowStrikes: number; // strikes slower than the target (or never back in guard)
+}
+
+// Breakdown for a single position of the combo
+export interface MoveScore {
+  moveId: string;
+  position: number; // Combo.moveIds index
+  strikes: number; // strikes matched to this position; for defensive moves, the gaps they were judged in
+  execution: number | null; // 0-100, null when the move was thrown but never visible
+  avgExtensionAngle: number | null; // degrees at peak (elbow or knee), null when no strike was visible
+  guardUpRatio: number | null; // 0-1 share of strike frames with the guard hand up, null when never visible
+  kick?: KickMetrics; // kicks and knees with matched strikes; missing on older sessions
+  avgSpeed?: number; // mean peak wrist/ankle speed, shoulder widths per second
+  topSpeed?: number; // fastest strike, shoulder widths per second
+  technique?: TechniqueScore; // from the move's technique checker; missing on older sessions
+  reference?: ReferenceMatch; // against the move's stickman keyframes; missing on older sessions
+}
+
+// How closely a move's strikes followed the stickman demonstration
+export interface ReferenceMatch {
+  similarity: number; // 0-100
+  worstJoint: AvatarJoint; // joint furthest from the reference on average
+  worstDeviation: number; // that joint's mean distance, in torso lengths
+}
+
+// A technique checker's verdict, averaged over the strikes matched to a move
+export interface TechniqueScore {
+  score: number; // 0-100
+  evidence: Record<string, number>; // measurements behind the score, e.g. elbowAngle
+  feedback: string[]; // i18n keys for faults seen on most strikes
+}
+
+// Leg strike mechanics, averaged over the strikes matched to a move
+export interface KickMetrics {
+  footAboveHip: number; // peak foot height above the hip, in shoulder widths
+  footAboveShoulder: number; // peak foot height above the shoulder, in shoulder widths
+  chamberAngle: number; // tightest knee angle before extension (degrees)
+  supportKneeAngle: number; // standing leg knee angle at peak (degrees)
+  pivot: number; // standing foot turn from start to peak (degrees)
+  quality: number; // 0-100 against the move's targets
+}
+
+// How well the recorded strikes followed the combo order
+export interface SequenceScore {
+  attemptedReps: number;
+  cleanReps: number; // repetitions with every strike in the right order
+  accuracy: number; // 0-1 share of expected strikes thrown correctly
+  positionErrors: number[]; // missed or wrong strikes per Combo.moveIds index
+  positionMatches: number[]; // correctly thrown strikes per Combo.moveIds index
+  weakestPosition: number | null; // Combo.moveIds index with the most errors
+  extraStrikes: number; // strikes that fit no position in the combo
 }
 
 // ============================================
@@ -133,6 +255,7 @@ export interface SessionScore {
 export interface PoseFrame {
   timestamp: number;
   landmarks: NormalizedLandmark[];
+  worldLandmarks?: WorldLandmark[]; // missing in recordings analysed before 3D capture
 }
 
 export interface NormalizedLandmark {
@@ -142,13 +265,173 @@ export interface NormalizedLandmark {
   visibility?: number;
 }
 
+// MediaPipe world landmark: real-world 3D position in meters, origin between the hips
+export interface WorldLandmark {
+  x: number;
+  y: number;
+  z: number;
+  visibility?: number;
+}
+
+// A single detection, before it is stamped into the timeline
+export interface DetectedPose {
+  landmarks: NormalizedLandmark[];
+  worldLandmarks?: WorldLandmark[];
+}
+
+// Compact pose timeline stored per session in IndexedDB
+export interface QuantizedPoseFrames {
+  version: number; // encoding version, bumped if the layout changes
+  landmarkCount: number; // landmarks per frame
+  coordScale: number; // stored coordinate = round(value * coordScale)
+  timestamps: Float32Array; // ms from video start, one per frame
+  coords: Int16Array; // x, y, z per landmark, frame-major
+  visibility: Uint8Array; // 0-255, one per landmark
+  worldCoords?: Int16Array; // world x, y, z (meters) in the same layout, when every frame has them
+}
+
+// Physical limb that threw a strike (camera-independent, not lead/rear)
+export type Limb = 'leftArm' | 'rightArm' | 'leftLeg' | 'rightLeg';
+
+// Inclusive span of PoseFrame[] indices
+export interface FrameRange {
+  startIndex: number;
+  endIndex: number;
+}
+
+// A single strike segmented from the pose timeline
+export interface StrikeEvent {
+  limb: Limb;
+  type: MoveType; // guessed from the limb shape at peak
+  startTime: number; // ms
+  peakTime: number; // ms
+  endTime: number; // ms
+  startIndex: number; // index into PoseFrame[]
+  peakIndex: number;
+  endIndex: number;
+  peakIntensity: number; // limb displacement at peak, in shoulder widths
+}
+
 export interface AnalysisResult {
   frameCount: number;
   duration: number;
   score: SessionScore;
   frames: PoseFrame[];
+  strikes: StrikeEvent[];
+  reps: RepCount;
+}
+
+// ============================================
+// Scoring Rubric
+// ============================================
+
+export type Subscore = 'guard' | 'stability' | 'execution' | 'timing';
+
+// Kick mechanics that can miss their target
+export type KickFault = 'height' | 'chamber' | 'support' | 'pivot';
+
+// Comparisons a value must pass; unset bounds are open
+export interface RubricCondition {
+  atLeast?: number;
+  above?: number;
+  atMost?: number;
+  below?: number;
+}
+
+// Points awarded when a value meets the condition; the first matching band wins
+export interface RubricBand extends RubricCondition {
+  points: number;
+}
+
+// Values the scorer hands to feedback rules; a rule is skipped when its metric wasn't measured
+export type RubricMetric =
+  | Subscore
+  | 'total' // sum of the subscores
+  | 'frameCount'
+  | 'scorableRatio' // 0-1 share of frames with the body visible enough to score
+  | 'framing' // 0-100 framing quality of the last frame
+  | 'sidewaysWithoutDepth' // 1 for a side view without world landmarks, else 0
+  | 'sequenceAccuracy' // 0-1, once a rep was attempted
+  | 'rotationOnTarget' // 0-1 share of power strikes that turned the hip
+  | 'minKickQuality' // 0-100, weakest kick move
+  | 'returnSlowRatio' // 0-1 share of slow returns to guard
+  | 'headScore' // 0-100
+  | 'chinTuckedRatio'
+  | 'headCenteredRatio'
+  | 'headLeaningRatio';
+
+export interface FeedbackRule extends RubricCondition {
+  metric: RubricMetric;
+  kind: 'strength' | 'improvement' | 'warning';
+  key: string; // i18n key emitted when the condition holds
+}
+
+// Thresholds, weights, subscore caps and feedback for generateScore
+export interface ScoringRubric {
+  id: string;
+  subscores: Record<Subscore, { max: number; fallback: number }>; // cap, and score when there is too little data
+  minFrames: number; // frames needed before stability, execution and timing are judged
+  guard: {
+    sampleCount: number; // frames sampled across the round
+    headWeight: number; // 0-1 share given to head position when measured
+    dropTolerance: number; // shoulder widths below guard height a wrist still counts as up
+    maxReach: number; // shoulder widths a wrist may sit sideways from the nose
+  };
+  execution: {
+    checkPoints: number; // points each check is worth before scaling to the cap
+    noChecksScore: number; // given when no check applies to the combo
+    punchExtension: {
+      minAngle: number; // elbow angle that counts as extended (degrees)
+      bands: RubricBand[]; // on the share of frames with an arm extended
+    };
+    kneeLift: {
+      bands: RubricBand[]; // on the share of frames with a knee lifted
+    };
+    rotation: {
+      moves: string[]; // Move.id powered by the hips
+      punchTarget: number; // hip turn at peak (degrees)
+      kickTarget: number;
+    };
+  };
+  timing: {
+    bands: { movement: RubricCondition; variance: RubricCondition; points: number }[];
+    defaultPoints: number;
+  };
+  feedback: {
+    rules: FeedbackRule[]; // checked in order
+    kickFaults: Record<KickFault, string>; // improvement per missed kick target
+    fatigueKey: string; // template with {metric} and {minute}
+    maxFatigueMinute: number; // later drops are reported as this minute
+    minReturnSamples: number; // strikes needed before returnSlowRatio is measured
+    fallbackStrength: string; // given when no strength applies
+    maxPerKind: number; // feedback kept per kind
+  };
+  overrides?: RubricOverride[]; // tuning for specific combos or levels
 }
 
+// Nested partial of a rubric, used by overrides and loaded files
+export type RubricPatch = {
+  [K in keyof Omit<ScoringRubric, 'overrides'>]?: DeepPartial<ScoringRubric[K]>;
+};
+
+type DeepPartial<T> = T extends (infer U)[]
+  ? U[]
+  : T extends object
+    ? { [K in keyof T]?: DeepPartial<T[K]> }
+    : T;
+
+// Applied when a combo matches every listed filter
+export interface RubricOverride {
+  profile: string; // name recorded with scores it applied to, e.g. "level1"
+  comboIds?: string[];
+  levels?: (1 | 2 | 3)[];
+  patch: RubricPatch;
+}
+
+// A rubric file as imported by a coach: a full or partial rubric layered
+// over the built-in one
+export type RubricFile = RubricPatch & { overrides?: RubricOverride[] };
+
 // ============================================
 // Music Settings
 // ============================================
@@ -179,6 +462,23 @@ export const DEFAULT_TRAINING_SETTINGS: TrainingSettings = {
   restDurationSec: 60,     // 1 minute rest
 };
 
+// ============================================
+// Live Coaching Overlay Settings
+// ============================================
+export interface CoachingOverlaySettings {
+  skeleton: boolean; // draw the detected skeleton over the camera feed
+  guardAlert: boolean; // flash when the guard stays down
+  strikeTicks: boolean; // tick each strike as it reaches extension
+  guardAlertDelayMs: number; // how long the guard may stay down before flashing
+}
+
+export const DEFAULT_COACHING_OVERLAY_SETTINGS: CoachingOverlaySettings = {
+  skeleton: false,
+  guardAlert: true,
+  strikeTicks: true,
+  guardAlertDelayMs: 1500,
+};
+
 // ============================================
 // Analysis Quality Settings
 // ============================================
@@ -192,8 +492,22 @@ export interface AnalysisQualityPreset {
   minPoseDetectionConfidence: number;
   minPosePresenceConfidence: number;
   minTrackingConfidence: number;
+  smoothing: SmoothingConfig;
+  liveCapture: boolean; // detect poses on the camera feed while recording instead of re-analysing the video
+}
+
+// One Euro filter parameters for landmark smoothing
+export interface SmoothingConfig {
+  enabled: boolean;
+  minCutoff: number; // Hz - lower = smoother when still
+  beta: number; // speed coefficient - higher = less lag on fast moves
+  dCutoff: number; // Hz - cutoff for the speed estimate
+  minVisibility: number; // 0-1 - below this a landmark holds its last position
 }
 
+// MediaPipe WASM runtime, shared by the main thread and the analysis worker
+export const MEDIAPIPE_WASM_URL = 'https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@latest/wasm';
+
 export const ANALYSIS_QUALITY_PRESETS: Record<AnalysisQuality, AnalysisQualityPreset> = {
   fast: {
     model: 'lite',
@@ -203,6 +517,9 @@ export const ANALYSIS_QUALITY_PRESETS: Record<AnalysisQuality, AnalysisQualityPr
     minPoseDetectionConfidence: 0.5,
     minPosePresenceConfidence: 0.5,
     minTrackingConfidence: 0.5,
+    // Sparse frames: light smoothing so short strikes survive
+    smoothing: { enabled: true, minCutoff: 2.0, beta: 20, dCutoff: 1.0, minVisibility: 0.5 },
+    liveCapture: true,
   },
   balanced: {
     model: 'full',
@@ -212,6 +529,8 @@ export const ANALYSIS_QUALITY_PRESETS: Record<AnalysisQuality, AnalysisQualityPr
     minPoseDetectionConfidence: 0.6,
     minPosePresenceConfidence: 0.6,
     minTrackingConfidence: 0.6,
+    smoothing: { enabled: true, minCutoff: 1.5, beta: 25, dCutoff: 1.0, minVisibility: 0.5 },
+    liveCapture: true,
   },
   maximum: {
     model: 'heavy',
@@ -221,6 +540,10 @@ export const ANALYSIS_QUALITY_PRESETS: Record<AnalysisQuality, AnalysisQualityPr
     minPoseDetectionConfidence: 0.8,
     minPosePresenceConfidence: 0.8,
     minTrackingConfidence: 0.8,
+    // Dense frames carry more jitter per frame, so smooth harder
+    smoothing: { enabled: true, minCutoff: 1.0, beta: 30, dCutoff: 1.0, minVisibility: 0.5 },
+    // The heavy model can't keep up with the camera; analyse the saved video instead
+    liveCapture: false,
   },
 };
 
@@ -237,6 +560,8 @@ export interface UserSettings {
   music: MusicSettings;
   training: TrainingSettings;
   analysisQuality: AnalysisQuality;
+  coachingOverlay: CoachingOverlaySettings;
+  scoringRubric: RubricFile | null; // imported rubric, null for the built-in one
 }
 
 // ============================================
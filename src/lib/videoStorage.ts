@@ -1,15 +1,22 @@
 // ============================================
 // IndexedDB Video Storage
-// Stores recorded videos locally for playback
+// Stores recorded videos and their pose frames locally for playback
 // ============================================
 
+import type { PoseFrame, QuantizedPoseFrames } from './types';
+import { quantizeFrames, dequantizeFrames } from './pose/quantize';
+
 const DB_NAME = 'muay-thai-coach-videos';
-const DB_VERSION = 1;
+const DB_VERSION = 2;
 const STORE_NAME = 'videos';
+const POSE_STORE_NAME = 'poses';
 
 // Default max videos to keep
 const DEFAULT_MAX_VIDEOS = 10;
 
+// Pose frames are small, so keep them for as long as the session is in history
+const MAX_POSE_SESSIONS = 50;
+
 interface StoredVideo {
   sessionId: string;
   blob: Blob;
@@ -17,6 +24,12 @@ interface StoredVideo {
   timestamp: number;
 }
 
+interface StoredPoseFrames {
+  sessionId: string;
+  frames: QuantizedPoseFrames;
+  timestamp: number;
+}
+
 let dbInstance: IDBDatabase | null = null;
 
 /**
@@ -42,6 +55,11 @@ async function openDB(): Promise<IDBDatabase> {
         const store = db.createObjectStore(STORE_NAME, { keyPath: 'sessionId' });
         store.createIndex('timestamp', 'timestamp', { unique: false });
       }
+
+      if (!db.objectStoreNames.contains(POSE_STORE_NAME)) {
+        const store = db.createObjectStore(POSE_STORE_NAME, { keyPath: 'sessionId' });
+        store.createIndex('timestamp', 'timestamp', { unique: false });
+      }
     };
   });
 }
@@ -241,3 +259,114 @@ export async function hasLocalVideo(sessionId: string): Promise<boolean> {
   return blob !== null;
 }
 
+/**
+ * Save the analyzed pose frames for a session
+ */
+export async function savePoseFrames(sessionId: string, frames: PoseFrame[]): Promise<void> {
+  const db = await openDB();
+
+  const entry: StoredPoseFrames = {
+    sessionId,
+    frames: quantizeFrames(frames),
+    timestamp: Date.now(),
+  };
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(POSE_STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(POSE_STORE_NAME);
+    const request = store.put(entry);
+
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => {
+      cleanupOldPoseFrames().then(resolve).catch(reject);
+    };
+  });
+}
+
+/**
+ * Get the stored pose frames for a session
+ */
+export async function getPoseFrames(sessionId: string): Promise<PoseFrame[] | null> {
+  const db = await openDB();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(POSE_STORE_NAME, 'readonly');
+    const store = transaction.objectStore(POSE_STORE_NAME);
+    const request = store.get(sessionId);
+
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => {
+      const result = request.result as StoredPoseFrames | undefined;
+      resolve(result ? dequantizeFrames(result.frames) : null);
+    };
+  });
+}
+
+/**
+ * Delete the pose frames for a session
+ */
+export async function deletePoseFrames(sessionId: string): Promise<void> {
+  const db = await openDB();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(POSE_STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(POSE_STORE_NAME);
+    const request = store.delete(sessionId);
+
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => resolve();
+  });
+}
+
+/**
+ * Delete all stored pose frames
+ */
+export async function clearPoseFrames(): Promise<void> {
+  const db = await openDB();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(POSE_STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(POSE_STORE_NAME);
+    const request = store.clear();
+
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => resolve();
+  });
+}
+
+/**
+ * Cleanup old pose frames, keeping only as many sessions as history holds
+ */
+async function cleanupOldPoseFrames(): Promise<void> {
+  const db = await openDB();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(POSE_STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(POSE_STORE_NAME);
+    const countRequest = store.count();
+
+    countRequest.onsuccess = () => {
+      let deleteCount = Math.max(0, countRequest.result - MAX_POSE_SESSIONS);
+      if (deleteCount === 0) {
+        resolve();
+        return;
+      }
+
+      // Walk oldest first, deleting until under the limit
+      const request = store.index('timestamp').openCursor();
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (cursor && deleteCount > 0) {
+          cursor.delete();
+          deleteCount--;
+          cursor.continue();
+        } else {
+          resolve();
+        }
+      };
+      request.onerror = () => reject(request.error);
+    };
+
+    countRequest.onerror = () => reject(countRequest.error);
+  });
+}